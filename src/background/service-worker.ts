@@ -1,37 +1,122 @@
 // Background Service Worker for Page Agent Extension
 
-import { MESSAGE_TYPES, TaskStatus, type ExtensionMessage, createMessage } from '../lib/messages'
-import { getConfig, isUsingDefaultConfig } from '../lib/storage'
+import { MESSAGE_TYPES, PROXY_STREAM_PORT, TaskStatus, type ExtensionMessage, type TaskCompletedMessage, type TaskErrorMessage, createMessage } from '../lib/messages'
+import { addRun, getAttachments, getConfig, isUsingDefaultConfig, type RunRecord } from '../lib/storage'
+import { hookWindowOpen } from '../lib/page-controller/newPage'
 
-// Keep track of active tabs running tasks
+/** JPEG quality of vision mode screenshots, keeps them small enough for every step */
+const SCREENSHOT_QUALITY = 60
+
+// Keep track of running tasks. A task may span several tabs.
 interface TaskState {
     taskId: string;
     startTime: number;
     task: string;
+    /** Page the task started on */
+    startUrl: string;
     history: any[];
     status: TaskStatus;  // 使用枚举类型
+    /** Tab the agent is currently running in */
+    activeTabId: number;
+    /** All tabs owned by this task: the starting tab and tabs opened by the agent */
+    tabIds: number[];
+    /** Tab the task moves to once the current tab hands it off */
+    pendingTabId?: number;
+    /** Saved macro the task replays */
+    macroId?: string;
 }
 
-// Helper to handle task state persistence
+// Helper to handle task state persistence (keyed by taskId)
 const storage = {
-    async getTasks(): Promise<Record<number, TaskState>> {
+    async getTasks(): Promise<Record<string, TaskState>> {
         const result = await chrome.storage.local.get('activeTasks')
         return result.activeTasks || {}
     },
-    async setTask(tabId: number, state: TaskState) {
+    async setTask(state: TaskState) {
         const tasks = await this.getTasks()
-        tasks[tabId] = state
+        tasks[state.taskId] = state
         await chrome.storage.local.set({ activeTasks: tasks })
     },
-    async removeTask(tabId: number) {
+    async removeTask(taskId: string) {
         const tasks = await this.getTasks()
-        delete tasks[tabId]
+        delete tasks[taskId]
         await chrome.storage.local.set({ activeTasks: tasks })
+        await chrome.storage.session.remove(`redactions_${taskId}`)
+    },
+    /**
+     * Redacted values of a task (placeholder -> original value), see `Redactor.values`.
+     * Personal data, kept in session storage: in memory only and never written to disk with the task state.
+     */
+    async getRedactions(taskId: string): Promise<Record<string, string> | undefined> {
+        const key = `redactions_${taskId}`
+        const result = await chrome.storage.session.get(key)
+        return result[key]
+    },
+    async setRedactions(taskId: string, redactions: Record<string, string>) {
+        await chrome.storage.session.set({ [`redactions_${taskId}`]: redactions })
+    },
+    /**
+     * Fingerprints of elements seen in a tab on an origin, see `markSeen` in `dom/fingerprint.ts`.
+     * Kept in session storage, they only matter while the browser is open.
+     */
+    async getSeenElements(tabId: number, origin: string): Promise<string[]> {
+        const key = `seen_${tabId}_${origin}`
+        const result = await chrome.storage.session.get(key)
+        return result[key] || []
+    },
+    async setSeenElements(tabId: number, origin: string, fingerprints: string[]) {
+        await chrome.storage.session.set({ [`seen_${tabId}_${origin}`]: fingerprints })
     },
+    async removeSeenElements(tabId: number) {
+        const keys = Object.keys(await chrome.storage.session.get(null))
+        await chrome.storage.session.remove(keys.filter(key => key.startsWith(`seen_${tabId}_`)))
+    },
+    /**
+     * Find the task owning the given tab (either as active tab or as an opened tab)
+     */
     async getTask(tabId: number): Promise<TaskState | undefined> {
-        const tasks = await this.getTasks()
-        return tasks[tabId]
+        const tasks: Record<string, TaskState> = await this.getTasks()
+        return Object.values(tasks).find(t => t.tabIds.includes(tabId))
+    }
+}
+
+/**
+ * Archive a finished task, see `RunRecord`
+ */
+async function archiveTask(
+    state: TaskState,
+    outcome: Pick<RunRecord, 'status' | 'success' | 'result' | 'extracted' | 'error'>
+) {
+    // completed and failed tasks are archived when they end, a later stop or tab close changes nothing
+    if (outcome.status === 'stopped' && (state.status === TaskStatus.COMPLETED || state.status === TaskStatus.FAILED)) {
+        return
+    }
+
+    let endUrl: string | undefined
+    try {
+        endUrl = (await chrome.tabs.get(state.activeTabId)).url
+    } catch {
+        // tab already closed
+    }
+
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+    for (const step of state.history) {
+        usage.promptTokens += step.usage?.promptTokens ?? 0
+        usage.completionTokens += step.usage?.completionTokens ?? 0
+        usage.totalTokens += step.usage?.totalTokens ?? 0
     }
+
+    await addRun({
+        id: state.taskId,
+        task: state.task,
+        startUrl: state.startUrl,
+        endUrl,
+        startTime: state.startTime,
+        endTime: Date.now(),
+        history: state.history,
+        usage,
+        ...outcome,
+    })
 }
 
 // Logging System
@@ -67,10 +152,71 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage, sender, sendRes
     return true // Keep the message channel open for async response
 })
 
+// Streamed LLM calls, see PROXY_STREAM_PORT
+chrome.runtime.onConnect.addListener((port: any) => {
+    if (port.name !== PROXY_STREAM_PORT) return
+
+    const controller = new AbortController()
+    port.onDisconnect.addListener(() => controller.abort())
+    port.onMessage.addListener(async ({ url, options: fetchOptions }: { url: string; options: RequestInit }) => {
+        try {
+            const response = await fetch(url, { ...fetchOptions, signal: controller.signal })
+
+            await logStorage.addLog({
+                level: response.ok ? 'info' : 'error',
+                source: 'proxy',
+                message: `LLM Call (stream): ${url}`,
+                details: {
+                    status: response.status,
+                    success: response.ok,
+                    model: JSON.parse((fetchOptions.body as string) || '{}').model
+                }
+            })
+
+            if (!response.ok || !response.body) {
+                const text = await response.text()
+                let data: any = text
+                try { data = JSON.parse(text) } catch (e) { }
+                port.postMessage({
+                    type: 'error',
+                    ok: false,
+                    status: response.status,
+                    statusText: response.statusText,
+                    retryAfter: response.headers.get('retry-after'),
+                    data
+                })
+                return
+            }
+
+            const reader = response.body.getReader()
+            const decoder = new TextDecoder()
+            while (true) {
+                const { done, value } = await reader.read()
+                if (done) break
+                port.postMessage({ type: 'chunk', text: decoder.decode(value, { stream: true }) })
+            }
+            port.postMessage({ type: 'done' })
+        } catch (error: any) {
+            // the client disconnected, nobody to answer
+            if (controller.signal.aborted) return
+            console.error('[PageAgent BG] Proxy stream failed:', error)
+            await logStorage.addLog({
+                level: 'error',
+                source: 'proxy',
+                message: `LLM Call Failed: ${url}`,
+                details: { error: error.message }
+            })
+            port.postMessage({ type: 'error', ok: false, error: error.message || 'Fetch failed' })
+        }
+    })
+})
+
 // Check for task resumption when a tab is updated
 chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
     if (changeInfo.status === 'complete') {
         const state = await storage.getTask(tabId);
+        // 任务的其他标签页（非当前执行标签页）不需要恢复
+        if (state && state.activeTabId !== tabId) return;
         // 只有状态不是已完成/已失败/停止中才恢复
         const terminalStatuses: TaskStatus[] = [
             TaskStatus.COMPLETED,
@@ -84,14 +230,21 @@ chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
             chrome.tabs.sendMessage(tabId, createMessage({
                 type: MESSAGE_TYPES.EXECUTE_TASK,
                 task: state.task,
-                initialHistory: state.history
+                initialHistory: state.history,
+                initialRedactions: await storage.getRedactions(state.taskId),
+                startTime: state.startTime,
+                macroId: state.macroId
             } as any)).catch(err => {
                 console.warn('[PageAgent BG] Immediate resume failed, might be too early:', err);
             });
         } else if (state) {
             // 任务已结束，清理状态
             console.log('[PageAgent BG] Task in terminal state, cleaning up:', tabId, 'status:', state.status);
-            await storage.removeTask(tabId);
+            // 停止中的任务在跳转后收不到 TASK_STOPPED，在此归档
+            if (state.status === TaskStatus.STOPPING) {
+                await archiveTask(state, { status: 'stopped', success: false })
+            }
+            await storage.removeTask(state.taskId);
         }
     }
 });
@@ -116,17 +269,22 @@ async function handleMessage(
 
                 // Only create new if not existing or different task
                 if (!existing || existing.task !== payload.task) {
-                    await storage.setTask(tabId, {
+                    if (existing) await storage.removeTask(existing.taskId)
+                    await storage.setTask({
                         taskId: crypto.randomUUID(),
                         startTime: Date.now(),
                         task: payload.task || '',
+                        startUrl: sender.tab.url || '',
                         history: [],
-                        status: TaskStatus.STARTING
+                        macroId: payload.macroId,
+                        status: TaskStatus.STARTING,
+                        activeTabId: tabId,
+                        tabIds: [tabId],
                     })
                 } else {
                     console.log('[PageAgent BG] Task already known, skipping re-init:', payload.task)
                     existing.status = TaskStatus.EXECUTING
-                    await storage.setTask(tabId, existing)
+                    await storage.setTask(existing)
                 }
             }
             break
@@ -139,7 +297,8 @@ async function handleMessage(
                     const payload = (message as any).payload
                     state.history = payload.history || state.history
                     state.status = payload.status || state.status
-                    await storage.setTask(tabId, state)
+                    await storage.setTask(state)
+                    if (payload.redactions) await storage.setRedactions(state.taskId, payload.redactions)
                 }
             }
             break
@@ -152,7 +311,7 @@ async function handleMessage(
                     const msg = message as any
                     if (msg.payload?.history) {
                         state.history = msg.payload.history
-                        await storage.setTask(tabId, state)
+                        await storage.setTask(state)
                     }
                 }
             }
@@ -162,13 +321,21 @@ async function handleMessage(
             if (sender.tab?.id) {
                 const state = await storage.getTask(sender.tab.id)
                 if (state) {
+                    const msg = message as TaskCompletedMessage
                     state.status = TaskStatus.COMPLETED
-                    await storage.setTask(sender.tab.id, state)
+                    state.history = msg.history || state.history
+                    await storage.setTask(state)
+                    await archiveTask(state, {
+                        status: 'completed',
+                        success: msg.success,
+                        result: msg.result,
+                        extracted: msg.extracted,
+                    })
+                    // 延迟清理，给其他组件时间读取最终状态
+                    setTimeout(async () => {
+                        await storage.removeTask(state.taskId)
+                    }, 1000)
                 }
-                // 延迟清理，给其他组件时间读取最终状态
-                setTimeout(async () => {
-                    await storage.removeTask(sender.tab!.id!)
-                }, 1000)
             }
             break
 
@@ -176,13 +343,16 @@ async function handleMessage(
             if (sender.tab?.id) {
                 const state = await storage.getTask(sender.tab.id)
                 if (state) {
+                    const msg = message as TaskErrorMessage
                     state.status = TaskStatus.FAILED
-                    await storage.setTask(sender.tab.id, state)
+                    state.history = msg.history || state.history
+                    await storage.setTask(state)
+                    await archiveTask(state, { status: 'error', success: false, error: msg.error })
+                    // 延迟清理
+                    setTimeout(async () => {
+                        await storage.removeTask(state.taskId)
+                    }, 1000)
                 }
-                // 延迟清理
-                setTimeout(async () => {
-                    await storage.removeTask(sender.tab!.id!)
-                }, 1000)
             }
             break
 
@@ -190,7 +360,11 @@ async function handleMessage(
             // 任务已确认停止，清理状态
             if (sender.tab?.id) {
                 console.log('[PageAgent BG] Task stopped confirmed, cleaning up:', sender.tab.id)
-                await storage.removeTask(sender.tab.id)
+                const state = await storage.getTask(sender.tab.id)
+                if (state) {
+                    await archiveTask(state, { status: 'stopped', success: false })
+                    await storage.removeTask(state.taskId)
+                }
             }
             sendResponse({ success: true })
             break
@@ -202,16 +376,17 @@ async function handleMessage(
                 const state = await storage.getTask(stopTabId)
                 if (state) {
                     state.status = TaskStatus.STOPPING
-                    await storage.setTask(stopTabId, state)
-                    // 向 content script 发送停止命令
+                    await storage.setTask(state)
+                    // 向正在执行任务的 content script 发送停止命令
                     try {
-                        await chrome.tabs.sendMessage(stopTabId, createMessage({
+                        await chrome.tabs.sendMessage(state.activeTabId, createMessage({
                             type: MESSAGE_TYPES.STOP_TASK
                         }))
                     } catch (e) {
                         // content script 不可达，直接清理
                         console.log('[PageAgent BG] Content script unreachable, cleaning up directly')
-                        await storage.removeTask(stopTabId)
+                        await archiveTask(state, { status: 'stopped', success: false })
+                        await storage.removeTask(state.taskId)
                     }
                 }
             }
@@ -222,8 +397,16 @@ async function handleMessage(
             const targetTabId = (message as any).payload?.tabId || sender.tab?.id
             if (targetTabId) {
                 const state = await storage.getTask(targetTabId)
-                if (state) {
-                    sendResponse({ active: true, task: state })
+                // A content script only resumes the task in the tab it is currently running in,
+                // while the popup shows the task on any of its tabs.
+                const isContentScript = !(message as any).payload?.tabId
+                if (state && (!isContentScript || state.activeTabId === targetTabId)) {
+                    // only the agent resuming the task gets the redacted values
+                    sendResponse({
+                        active: true,
+                        task: state,
+                        ...(isContentScript && { redactions: await storage.getRedactions(state.taskId) }),
+                    })
                 } else {
                     sendResponse({ active: false })
                 }
@@ -232,6 +415,119 @@ async function handleMessage(
             }
             break
 
+        case MESSAGE_TYPES.TAB_LIST:
+            if (sender.tab?.id) {
+                const state = await storage.getTask(sender.tab.id)
+                sendResponse({ tabs: state ? await describeTaskTabs(state) : [] })
+            } else {
+                sendResponse({ tabs: [] })
+            }
+            break
+
+        case MESSAGE_TYPES.TAB_OPEN:
+            if (sender.tab?.id) {
+                const state = await storage.getTask(sender.tab.id)
+                if (!state) {
+                    sendResponse({ success: false, error: 'No running task for this tab' })
+                    break
+                }
+                const { url } = (message as any).payload
+                // relative URLs would open extension pages, other schemes could run scripts
+                if (!/^https?:\/\//i.test(url)) {
+                    sendResponse({ success: false, error: `Only http and https URLs can be opened: ${url}` })
+                    break
+                }
+                try {
+                    const tab = await chrome.tabs.create({ url, openerTabId: sender.tab.id, active: true })
+                    if (!state.tabIds.includes(tab.id!)) state.tabIds.push(tab.id!)
+                    state.pendingTabId = tab.id
+                    await storage.setTask(state)
+                    sendResponse({ success: true, tabId: tab.id })
+                } catch (error: any) {
+                    sendResponse({ success: false, error: error.message })
+                }
+            }
+            break
+
+        case MESSAGE_TYPES.TAB_SWITCH:
+            if (sender.tab?.id) {
+                const state = await storage.getTask(sender.tab.id)
+                const { tabId: switchTabId } = (message as any).payload
+                if (!state || !state.tabIds.includes(switchTabId)) {
+                    sendResponse({ success: false, error: `Tab ${switchTabId} does not belong to this task` })
+                    break
+                }
+                if (switchTabId === state.activeTabId) {
+                    sendResponse({ success: true, alreadyActive: true })
+                    break
+                }
+                try {
+                    await chrome.tabs.update(switchTabId, { active: true })
+                    state.pendingTabId = switchTabId
+                    await storage.setTask(state)
+                    sendResponse({ success: true })
+                } catch (error: any) {
+                    sendResponse({ success: false, error: error.message })
+                }
+            }
+            break
+
+        case MESSAGE_TYPES.TAB_CLOSE:
+            if (sender.tab?.id) {
+                const state = await storage.getTask(sender.tab.id)
+                const { tabId: closeTabId } = (message as any).payload
+                if (!state || !state.tabIds.includes(closeTabId)) {
+                    sendResponse({ success: false, error: `Tab ${closeTabId} does not belong to this task` })
+                    break
+                }
+                if (closeTabId === state.activeTabId) {
+                    sendResponse({ success: false, error: 'Cannot close the tab the agent is running in. Switch to another tab first.' })
+                    break
+                }
+                try {
+                    state.tabIds = state.tabIds.filter(id => id !== closeTabId)
+                    await storage.setTask(state)
+                    await chrome.tabs.remove(closeTabId)
+                    sendResponse({ success: true })
+                } catch (error: any) {
+                    sendResponse({ success: false, error: error.message })
+                }
+            }
+            break
+
+        case MESSAGE_TYPES.TASK_HANDOFF:
+            // The agent in the sender tab suspended itself, continue the task in the pending tab
+            if (sender.tab?.id) {
+                const state = await storage.getTask(sender.tab.id)
+                if (!state || !state.pendingTabId) {
+                    sendResponse({ success: false })
+                    break
+                }
+                state.history = (message as any).payload?.history || state.history
+                if ((message as any).payload?.redactions) {
+                    await storage.setRedactions(state.taskId, (message as any).payload.redactions)
+                }
+                state.activeTabId = state.pendingTabId
+                delete state.pendingTabId
+                state.status = TaskStatus.EXECUTING
+                await storage.setTask(state)
+                console.log('[PageAgent BG] Task handed off from tab', sender.tab.id, 'to tab', state.activeTabId)
+
+                // If the tab is still loading, `tabs.onUpdated` resumes the task once it completes
+                chrome.tabs.sendMessage(state.activeTabId, createMessage({
+                    type: MESSAGE_TYPES.EXECUTE_TASK,
+                    task: state.task,
+                    initialHistory: state.history,
+                    initialRedactions: await storage.getRedactions(state.taskId),
+                    startTime: state.startTime,
+                    macroId: state.macroId
+                } as any)).catch(err => {
+                    console.warn('[PageAgent BG] Handoff resume deferred until tab is ready:', err);
+                })
+                sendResponse({ success: true })
+            }
+            break
+
         case MESSAGE_TYPES.PROXY_FETCH:
             const { url, options: fetchOptions } = (message as any).payload
             try {
@@ -261,6 +557,7 @@ async function handleMessage(
                     ok: response.ok,
                     status: response.status,
                     statusText: response.statusText,
+                    retryAfter: response.headers.get('retry-after'),
                     data
                 })
             } catch (error: any) {
@@ -326,6 +623,66 @@ async function handleMessage(
             }
             break
 
+        case MESSAGE_TYPES.DEBUGGER_UPLOAD_FILE:
+            if (sender.tab?.id) {
+                const { token, attachment: attachmentName } = (message as any).payload
+                const attachment = (await getAttachments()).find(a => a.name === attachmentName || a.id === attachmentName)
+                if (!attachment) {
+                    sendResponse({ success: false, error: `Attachment "${attachmentName}" not found` })
+                    break
+                }
+                try {
+                    await performDebuggerSetFiles(sender.tab.id, token, [attachment.path])
+                    sendResponse({ success: true, attachment: attachment.name })
+                } catch (error: any) {
+                    sendResponse({ success: false, error: error.message })
+                }
+            }
+            break
+
+        case MESSAGE_TYPES.CAPTURE_SCREENSHOT:
+            if (sender.tab?.id) {
+                try {
+                    const dataUrl = await captureTab(sender.tab.id, sender.tab.windowId, sender.tab.active)
+                    sendResponse({ success: true, dataUrl })
+                } catch (error: any) {
+                    console.warn('[PageAgent BG] Failed to capture screenshot:', error)
+                    sendResponse({ success: false, error: error.message })
+                }
+            }
+            break
+
+        case MESSAGE_TYPES.INSTALL_WINDOW_OPEN_HOOK:
+            // Content scripts run in an isolated world, window.open must be hooked in the main world
+            if (sender.tab?.id) {
+                try {
+                    await chrome.scripting.executeScript({
+                        target: { tabId: sender.tab.id, frameIds: [sender.frameId ?? 0] },
+                        world: 'MAIN',
+                        func: hookWindowOpen,
+                    })
+                    sendResponse({ success: true })
+                } catch (error: any) {
+                    console.warn('[PageAgent BG] Failed to hook window.open:', error)
+                    sendResponse({ success: false, error: error.message })
+                }
+            }
+            break
+
+        case MESSAGE_TYPES.SEEN_ELEMENTS_GET:
+            // keyed by the sender's origin, a page cannot ask for the elements of another site
+            sendResponse({
+                fingerprints: sender.tab?.id && sender.origin ? await storage.getSeenElements(sender.tab.id, sender.origin) : [],
+            })
+            break
+
+        case MESSAGE_TYPES.SEEN_ELEMENTS_SET:
+            if (sender.tab?.id && sender.origin) {
+                await storage.setSeenElements(sender.tab.id, sender.origin, (message as any).payload?.fingerprints ?? [])
+                sendResponse({ success: true })
+            }
+            break
+
         default:
             console.log('[PageAgent BG] Unknown message type:', message.type)
     }
@@ -438,6 +795,82 @@ async function performDebuggerPressKey(tabId: number, key: string) {
     }
 }
 
+async function performDebuggerSetFiles(tabId: number, token: string, files: string[]) {
+    const target = { tabId };
+    try {
+        try {
+            await chrome.debugger.attach(target, '1.3');
+        } catch (e: any) {
+            if (!e.message.includes('Already attached')) throw e;
+        }
+
+        console.log(`[PageAgent BG] Debugger setting files:`, files);
+
+        // The content script marked the input with a token, also look into same-origin iframes
+        const expression = `(function find(doc) {
+            const el = doc.querySelector('[data-page-agent-upload-target="${token}"]')
+            if (el) return el
+            for (const frame of doc.querySelectorAll('iframe')) {
+                try {
+                    const found = frame.contentDocument && find(frame.contentDocument)
+                    if (found) return found
+                } catch (e) { }
+            }
+            return null
+        })(document)`
+        const evaluation: any = await chrome.debugger.sendCommand(target, 'Runtime.evaluate', { expression });
+        const objectId = evaluation?.result?.objectId
+        if (!objectId) throw new Error('File input not found in page');
+
+        await chrome.debugger.sendCommand(target, 'DOM.setFileInputFiles', { files, objectId });
+
+        await chrome.debugger.detach(target);
+    } catch (error) {
+        console.error('[PageAgent BG] Debugger set files error:', error);
+        try { await chrome.debugger.detach(target); } catch (e) { }
+        throw error;
+    }
+}
+
+/**
+ * Screenshot of the visible part of a tab, as a JPEG data URL.
+ * `captureVisibleTab` only sees the active tab of a window, background tabs go through the debugger.
+ */
+async function captureTab(tabId: number, windowId: number, active: boolean): Promise<string> {
+    if (active) {
+        try {
+            return await chrome.tabs.captureVisibleTab(windowId, { format: 'jpeg', quality: SCREENSHOT_QUALITY })
+        } catch (error) {
+            // e.g. rate limited, or the window is minimized
+            console.warn('[PageAgent BG] captureVisibleTab failed, falling back to debugger:', error)
+        }
+    }
+    return await performDebuggerScreenshot(tabId)
+}
+
+async function performDebuggerScreenshot(tabId: number): Promise<string> {
+    const target = { tabId };
+    try {
+        try {
+            await chrome.debugger.attach(target, '1.3');
+        } catch (e: any) {
+            if (!e.message.includes('Already attached')) throw e;
+        }
+
+        const result: any = await chrome.debugger.sendCommand(target, 'Page.captureScreenshot', {
+            format: 'jpeg',
+            quality: SCREENSHOT_QUALITY,
+        });
+
+        await chrome.debugger.detach(target);
+        return `data:image/jpeg;base64,${result.data}`
+    } catch (error) {
+        console.error('[PageAgent BG] Debugger screenshot error:', error);
+        try { await chrome.debugger.detach(target); } catch (e) { }
+        throw error;
+    }
+}
+
 function getKeyDefinition(key: string): any {
     switch (key.toLowerCase()) {
         case 'enter':
@@ -493,9 +926,43 @@ function getKeyDefinition(key: string): any {
     }
 }
 
+async function describeTaskTabs(state: TaskState) {
+    const tabs = []
+    for (const id of state.tabIds) {
+        try {
+            const tab = await chrome.tabs.get(id)
+            tabs.push({ id, title: tab.title || '', url: tab.url || tab.pendingUrl || '', current: id === state.activeTabId })
+        } catch (e) {
+            // tab closed meanwhile, skip
+        }
+    }
+    return tabs
+}
+
+// Track tabs opened by the agent (e.g. links with target=_blank)
+chrome.tabs.onCreated.addListener(async (tab) => {
+    if (!tab.id || !tab.openerTabId) return
+    const state = await storage.getTask(tab.openerTabId)
+    if (state && state.activeTabId === tab.openerTabId && !state.tabIds.includes(tab.id)) {
+        console.log('[PageAgent BG] Tracking tab opened by task:', tab.id)
+        state.tabIds.push(tab.id)
+        await storage.setTask(state)
+    }
+})
+
 // Listen for tab removal to clean up
 chrome.tabs.onRemoved.addListener(async (tabId) => {
-    await storage.removeTask(tabId)
+    await storage.removeSeenElements(tabId)
+    const state = await storage.getTask(tabId)
+    if (!state) return
+    if (state.activeTabId === tabId) {
+        await archiveTask(state, { status: 'stopped', success: false, error: 'Tab closed' })
+        await storage.removeTask(state.taskId)
+    } else {
+        state.tabIds = state.tabIds.filter(id => id !== tabId)
+        if (state.pendingTabId === tabId) delete state.pendingTabId
+        await storage.setTask(state)
+    }
 })
 
 // Listen for extension installation
@@ -2,10 +2,10 @@
 // This script is injected into web pages to enable the PageAgent functionality
 
 import './content-style.css'
-import { PageAgent } from './page-agent-bundle'
+import { PageAgent, type Macro } from './page-agent-bundle'
 import { MESSAGE_TYPES, createMessage, type ExtensionMessage, type ExecuteTaskMessage } from '../lib/messages'
-import { getConfig } from '../lib/storage'
-import type { ExtensionConfig } from '../lib/config'
+import { getAttachments, getConfig, getMacro, getSecrets } from '../lib/storage'
+import type { ExtensionConfig, FallbackModel } from '../lib/config'
 
 // PageAgent instance (will be dynamically created)
 let pageAgent: any = null
@@ -77,7 +77,13 @@ async function checkBackgroundStatus() {
                 indicator.style.opacity = '0'
                 setTimeout(() => indicator.remove(), 500)
             }
-            await executeTask(response.task.task, response.task.history)
+            await executeTask(
+                response.task.task,
+                response.task.history,
+                response.task.startTime,
+                response.task.macroId,
+                response.redactions
+            )
         } else {
             console.log('[PageAgent Content] No active task found for this tab.')
             // Remove indicator if no task
@@ -106,7 +112,13 @@ async function handleMessage(message: ExtensionMessage, sendResponse: (response:
     switch (message.type) {
         case MESSAGE_TYPES.EXECUTE_TASK:
             const executeMessage = message as any
-            await executeTask(executeMessage.task, executeMessage.initialHistory)
+            await executeTask(
+                executeMessage.task,
+                executeMessage.initialHistory,
+                executeMessage.startTime,
+                executeMessage.macroId,
+                executeMessage.initialRedactions
+            )
             sendResponse({ success: true })
             break
 
@@ -162,7 +174,13 @@ async function handleMessage(message: ExtensionMessage, sendResponse: (response:
 }
 
 // Execute a task
-async function executeTask(task: string, initialHistory?: any[]) {
+async function executeTask(
+    task: string,
+    initialHistory?: any[],
+    startTime?: number,
+    macroId?: string,
+    initialRedactions?: Record<string, string>
+) {
     if (isExecuting) {
         console.log('[PageAgent] Task already executing, ignoring request')
         return
@@ -187,12 +205,13 @@ async function executeTask(task: string, initialHistory?: any[]) {
         const config = await getConfig()
 
         // Create PageAgent instance
-        pageAgent = await createPageAgent(config, initialHistory)
+        const macro = macroId ? await getMacro(macroId) : undefined
+        pageAgent = await createPageAgent(config, initialHistory, startTime, macro, initialRedactions)
 
         // Notify background that task started (or resumed)
         chrome.runtime.sendMessage(createMessage({
             type: MESSAGE_TYPES.TASK_STARTED,
-            payload: { task }
+            payload: { task, macroId }
         } as any))
 
         // Execute the task
@@ -206,9 +225,24 @@ async function executeTask(task: string, initialHistory?: any[]) {
             type: MESSAGE_TYPES.TASK_COMPLETED,
             success: result.success,
             result: result.data,
+            extracted: result.success ? result.extracted : undefined,
+            history: result.history,
         }))
     } catch (error: any) {
         if (error.message === 'AbortError') {
+            if (pageAgent?.suspendReason) {
+                // Task moved to another tab: hand over the history and release this tab
+                console.log('[PageAgent] Task suspended, handing off:', pageAgent.suspendReason)
+                const history = pageAgent.history
+                const redactions = getRedactions(pageAgent)
+                pageAgent.dispose('TASK_SUSPENDED')
+                pageAgent = null
+                chrome.runtime.sendMessage(createMessage({
+                    type: MESSAGE_TYPES.TASK_HANDOFF,
+                    payload: { history, redactions }
+                } as any))
+                return
+            }
             console.log('[PageAgent] Task execution aborted (expected during navigation/stop)')
             return
         }
@@ -217,6 +251,7 @@ async function executeTask(task: string, initialHistory?: any[]) {
         chrome.runtime.sendMessage(createMessage({
             type: MESSAGE_TYPES.TASK_ERROR,
             error: error.message || 'Unknown error',
+            history: pageAgent?.history,
         }))
     } finally {
         isExecuting = false
@@ -244,37 +279,85 @@ function stopTask() {
     })
 }
 
+// Fallback or executor model, empty fields are inherited from the primary model
+function toDerivedModel(model: FallbackModel) {
+    return {
+        provider: model.provider,
+        baseURL: model.baseURL || undefined,
+        apiKey: model.apiKey || undefined,
+        model: model.model,
+    }
+}
+
+// Redacted values to keep with the task, so placeholders in the history can be typed back after a page load
+function getRedactions(agent: PageAgent): Record<string, string> | undefined {
+    return agent.redactor.enabled ? agent.redactor.values : undefined
+}
+
 // Create PageAgent instance with config
-async function createPageAgent(config: ExtensionConfig, initialHistory?: any[]): Promise<any> {
+async function createPageAgent(
+    config: ExtensionConfig,
+    initialHistory?: any[],
+    taskStartTime?: number,
+    macro?: Macro,
+    initialRedactions?: Record<string, string>
+): Promise<any> {
     const customTools: Record<string, any> = {}
     for (const toolId of config.tools.disabledTools) {
         customTools[toolId] = null
     }
 
+    const attachments = await getAttachments()
+    const secrets = await getSecrets()
+
     const agent = new PageAgent({
+        provider: config.llm.provider,
         baseURL: config.llm.baseURL,
         apiKey: config.llm.apiKey,
         model: config.llm.model,
         temperature: config.llm.temperature,
         maxTokens: config.llm.maxTokens,
+        maxContextTokens: config.llm.maxContextTokens,
         maxRetries: config.llm.maxRetries,
+        vision: config.llm.vision,
+        stream: config.llm.stream,
+        // empty fields are inherited from the primary model
+        fallbacks: config.llm.fallbacks.map(toDerivedModel),
+        ...(config.llm.executor && { executor: toDerivedModel(config.llm.executor) }),
         language: config.ui.language,
         interactionMode: config.ui.interactionMode,
+        experimentalPreventNewPage: config.ui.preventNewPage,
+        planning: config.ui.planning !== 'off',
+        planReview: config.ui.planning === 'review',
+        ...(config.ui.approval !== 'off' && { approval: { llmJudge: config.ui.approval === 'llm' } }),
         customTools,
         initialHistory,
+        initialRedactions,
+        taskStartTime,
+        macro,
+        maxSteps: config.limits.maxSteps,
+        maxTotalTokens: config.limits.maxTotalTokens,
+        maxDuration: config.limits.maxDuration,
+        attachments: attachments.map(({ name, description }) => ({ name, description })),
+        secrets: secrets.map(({ name, value, description }) => ({ name, value, description })),
+        redaction: {
+            detectors: config.privacy.redact,
+            customPatterns: config.privacy.customPatterns,
+        },
+        sitePolicies: config.policies,
 
         onAfterStep: (stepCnt: number, history: any[]) => {
             // Heartbeat to background
             chrome.runtime.sendMessage(createMessage({
                 type: MESSAGE_TYPES.TASK_HEARTBEAT,
-                payload: { history, status: 'executing' }
+                payload: { history, status: 'executing', redactions: getRedactions(agent) }
             } as any))
 
             // Progress to popup
             chrome.runtime.sendMessage(createMessage({
                 type: MESSAGE_TYPES.TASK_PROGRESS,
                 step: stepCnt,
-                maxSteps: 20,
+                maxSteps: config.limits.maxSteps,
                 status: history[history.length - 1]?.action?.name || 'processing',
                 brain: history[history.length - 1]?.brain ? {
                     evaluation: history[history.length - 1].brain.evaluation_previous_goal,
@@ -298,7 +381,8 @@ async function createPageAgent(config: ExtensionConfig, initialHistory?: any[]):
                     type: MESSAGE_TYPES.TASK_HEARTBEAT,
                     payload: {
                         history: this.history,
-                        status: 'navigating'
+                        status: 'navigating',
+                        redactions: getRedactions(this),
                     }
                 } as any)).catch(() => {
                     // Ignore errors during unload
@@ -2,4 +2,5 @@
 // Re-exports the PageAgent class with adjusted imports
 
 export { PageAgent } from '../lib/page-agent/PageAgent'
-export type { PageAgentConfig, ExecutionResult, AgentHistory } from '../lib/page-agent/PageAgent'
+export type { PageAgentConfig, ExecutionResult, ExecuteOptions, AgentHistory } from '../lib/page-agent/PageAgent'
+export type { Macro, MacroStep } from '../lib/page-agent/macro'
@@ -1,12 +1,38 @@
 // Page Agent Extension Configuration Types
+import type { LLMProvider } from './page-agent/llms'
+import { LLM_PROVIDERS } from './page-agent/llms/providers'
+import type { SitePolicy } from './page-agent/policy'
+import type { RedactionDetector } from './page-agent/redaction'
 
 export interface LLMConfig {
+    /** API format, see `LLMProvider` */
+    provider: LLMProvider
     baseURL: string
     apiKey: string
     model: string
     temperature: number
     maxTokens: number
+    /** context window of the model, prompts are compacted to fit. 0 for no limit */
+    maxContextTokens: number
     maxRetries: number
+    /** model accepts images, each step gets a labeled screenshot */
+    vision: boolean
+    /** stream responses and show the thinking while it is written, openai and anthropic only */
+    stream: boolean
+    /** models tried in order when the one above keeps failing */
+    fallbacks: FallbackModel[]
+    /** cheaper model for routine steps, the main model plans at the start and after failures */
+    executor: FallbackModel | null
+}
+
+/**
+ * Fallback or executor model, other settings are shared with the primary model
+ */
+export interface FallbackModel {
+    provider: LLMProvider
+    baseURL: string
+    apiKey: string
+    model: string
 }
 
 export interface ToolConfig {
@@ -14,26 +40,86 @@ export interface ToolConfig {
     disabledTools: string[]
 }
 
+/**
+ * Limits of a single task, 0 means no limit for budgets
+ */
+export interface LimitsConfig {
+    maxSteps: number
+    /** total tokens of all steps */
+    maxTotalTokens: number
+    /** seconds */
+    maxDuration: number
+}
+
 export interface UIConfig {
     language: 'zh-CN' | 'en-US'
     interactionMode: 'simulated' | 'debugger'
+    preventNewPage: boolean
+    /** plan the task as a todo list first, `review` waits for the user to confirm it */
+    planning: 'off' | 'auto' | 'review'
+    /** confirm risky actions in the panel, `llm` also asks the model about actions the rules let through */
+    approval: 'off' | 'rules' | 'llm'
+}
+
+/**
+ * Personal data redacted from page content before it is sent to the model
+ */
+export interface PrivacyConfig {
+    redact: RedactionDetector[]
+    /** `name` labels the placeholders, `pattern` is a regular expression */
+    customPatterns: { name: string; pattern: string }[]
+}
+
+/**
+ * File the agent may upload with `upload_file`.
+ * @note Uploaded through the debugger protocol, which only accepts paths on the local disk.
+ */
+export interface Attachment {
+    id: string
+    /** name the agent refers to */
+    name: string
+    /** absolute path on this computer */
+    path: string
+    description?: string
+}
+
+/**
+ * Secret the agent types as `{{secret:name}}` without seeing its value, e.g. a password.
+ * @note Kept in local storage only, never synced.
+ */
+export interface Secret {
+    id: string
+    /** used in the placeholder, letters, digits, `_`, `-` and `.` */
+    name: string
+    value: string
+    description?: string
 }
 
 export interface ExtensionConfig {
     llm: LLMConfig
     tools: ToolConfig
+    limits: LimitsConfig
     ui: UIConfig
+    privacy: PrivacyConfig
+    /** first match wins, see `SitePolicy` */
+    policies: SitePolicy[]
 }
 
 // Default configuration (from original page-agent project)
 export const DEFAULT_CONFIG: ExtensionConfig = {
     llm: {
+        provider: 'openai',
         baseURL: 'https://hwcxiuzfylggtcktqgij.supabase.co/functions/v1/llm-testing-proxy',
         apiKey: 'PAGE-AGENT-FREE-TESTING-RANDOM',
         model: 'PAGE-AGENT-FREE-TESTING-RANDOM',
         temperature: 0.7,
         maxTokens: 4096,
+        maxContextTokens: 0,
         maxRetries: 2,
+        vision: false,
+        stream: false,
+        fallbacks: [],
+        executor: null,
     },
     tools: {
         enabled: [
@@ -45,15 +131,44 @@ export const DEFAULT_CONFIG: ExtensionConfig = {
             'select_dropdown_option',
             'scroll',
             'scroll_horizontally',
+            'open_tab',
+            'switch_tab',
+            'close_tab',
+            'go_back',
+            'go_forward',
+            'navigate_to_url',
+            'reload',
+            'upload_file',
+            'extract_structured_data',
+            'get_dropdown_options',
+            'set_widget_value',
         ],
         disabledTools: ['execute_javascript'], // Experimental tool disabled by default
     },
+    limits: {
+        maxSteps: 20,
+        maxTotalTokens: 0,
+        maxDuration: 0,
+    },
     ui: {
         language: 'zh-CN',
         interactionMode: 'debugger', // Default to enhanced debugger clicks
+        preventNewPage: false, // New tabs are followed with switch_tab
+        planning: 'off',
+        approval: 'off',
     },
+    privacy: {
+        redact: [],
+        customPatterns: [],
+    },
+    policies: [],
 }
 
+/** Base URL used when the field is left empty, see `LLM_PROVIDERS` */
+export const PROVIDER_BASE_URLS = Object.fromEntries(
+    Object.entries(LLM_PROVIDERS).map(([provider, { baseURL }]) => [provider, baseURL])
+) as Record<LLMProvider, string>
+
 // All available internal tools
 export const ALL_TOOLS = [
     { id: 'done', name: '完成任务', description: '完成当前任务并提供结果摘要' },
@@ -64,5 +179,16 @@ export const ALL_TOOLS = [
     { id: 'select_dropdown_option', name: '选择下拉选项', description: '从下拉菜单中选择选项' },
     { id: 'scroll', name: '滚动页面', description: '垂直滚动页面' },
     { id: 'scroll_horizontally', name: '水平滚动', description: '水平滚动页面或元素' },
+    { id: 'open_tab', name: '打开标签页', description: '在新标签页打开网址并切换过去' },
+    { id: 'switch_tab', name: '切换标签页', description: '切换到任务打开的其他标签页继续执行' },
+    { id: 'close_tab', name: '关闭标签页', description: '关闭任务打开的标签页' },
+    { id: 'go_back', name: '后退', description: '返回浏览器上一页' },
+    { id: 'go_forward', name: '前进', description: '前进到浏览器下一页' },
+    { id: 'navigate_to_url', name: '打开网址', description: '在当前标签页打开指定网址' },
+    { id: 'reload', name: '刷新页面', description: '重新加载当前页面' },
+    { id: 'upload_file', name: '上传文件', description: '将附件库中的文件上传到文件输入框' },
+    { id: 'get_dropdown_options', name: '列出下拉选项', description: '列出原生及自定义下拉菜单的全部选项' },
+    { id: 'set_widget_value', name: '设置控件值', description: '设置 antd / Element UI / MUI 等组件库的复选框、开关、日期、下拉框' },
+    { id: 'extract_structured_data', name: '提取数据', description: '从整个页面文本中提取 JSON 结构化数据' },
     { id: 'execute_javascript', name: '执行脚本', description: '执行 JavaScript 代码（实验性）', experimental: true },
 ]
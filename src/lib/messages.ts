@@ -31,6 +31,13 @@ export const MESSAGE_TYPES = {
 
     // Task lifecycle
     TASK_STOPPED: 'TASK_STOPPED',  // 新增：任务已停止确认
+    TASK_HANDOFF: 'TASK_HANDOFF',  // 当前标签页交出任务，由 pending 标签页继续执行
+
+    // Multi-tab orchestration (content script -> background)
+    TAB_LIST: 'TAB_LIST',
+    TAB_OPEN: 'TAB_OPEN',
+    TAB_SWITCH: 'TAB_SWITCH',
+    TAB_CLOSE: 'TAB_CLOSE',
 
     // Configuration
     CONFIG_UPDATED: 'CONFIG_UPDATED',
@@ -40,6 +47,17 @@ export const MESSAGE_TYPES = {
     DEBUGGER_CLICK: 'DEBUGGER_CLICK',
     DEBUGGER_TYPE: 'DEBUGGER_TYPE',
     DEBUGGER_PRESS_KEY: 'DEBUGGER_PRESS_KEY',
+    DEBUGGER_UPLOAD_FILE: 'DEBUGGER_UPLOAD_FILE',
+
+    // Vision mode (content script -> background)
+    CAPTURE_SCREENSHOT: 'CAPTURE_SCREENSHOT',
+
+    // Main world hooks
+    INSTALL_WINDOW_OPEN_HOOK: 'INSTALL_WINDOW_OPEN_HOOK',
+
+    // Fingerprints of elements seen in a tab, per origin (content script -> background)
+    SEEN_ELEMENTS_GET: 'SEEN_ELEMENTS_GET',
+    SEEN_ELEMENTS_SET: 'SEEN_ELEMENTS_SET',
 
     // Status
     GET_STATUS: 'GET_STATUS',
@@ -54,6 +72,14 @@ export const MESSAGE_TYPES = {
 
 export type MessageType = typeof MESSAGE_TYPES[keyof typeof MESSAGE_TYPES]
 
+/**
+ * Port for streamed LLM calls: the client posts `{ url, options }` once,
+ * the background answers with `{ type: 'chunk', text }` messages then `{ type: 'done' }`,
+ * or `{ type: 'error' }` carrying the same fields as a PROXY_FETCH failure.
+ * Disconnecting the port aborts the request.
+ */
+export const PROXY_STREAM_PORT = 'PROXY_STREAM'
+
 export interface BaseMessage {
     type: MessageType
     timestamp: number
@@ -62,6 +88,14 @@ export interface BaseMessage {
 export interface ExecuteTaskMessage extends BaseMessage {
     type: typeof MESSAGE_TYPES.EXECUTE_TASK
     task: string
+    /** set when the background resumes a task */
+    initialHistory?: any[]
+    /** redacted values of the resumed task, see `AgentConfig.initialRedactions` */
+    initialRedactions?: Record<string, string>
+    /** start time of the resumed task */
+    startTime?: number
+    /** replay this saved macro, see `AgentConfig.macro` */
+    macroId?: string
 }
 
 export interface StopTaskMessage extends BaseMessage {
@@ -83,12 +117,29 @@ export interface TaskProgressMessage extends BaseMessage {
 export interface TaskCompletedMessage extends BaseMessage {
     type: typeof MESSAGE_TYPES.TASK_COMPLETED
     success: boolean
-    result: string
+    /** `ExecutionResult.data` */
+    result: unknown
+    /** `ExecutionResult.extracted` */
+    extracted?: unknown
+    /** full history of the task, archived by the background */
+    history?: any[]
+}
+
+/**
+ * Tab owned by a running task, as reported by TAB_LIST
+ */
+export interface TaskTabInfo {
+    id: number
+    title: string
+    url: string
+    /** whether the agent is currently running in this tab */
+    current: boolean
 }
 
 export interface TaskErrorMessage extends BaseMessage {
     type: typeof MESSAGE_TYPES.TASK_ERROR
     error: string
+    history?: any[]
 }
 
 export type ExtensionMessage =
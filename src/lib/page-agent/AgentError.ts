@@ -30,10 +30,12 @@ export enum AgentErrorCode {
     // 任务相关
     TASK_ABORTED = 'TASK_ABORTED',
     TASK_MAX_STEPS = 'TASK_MAX_STEPS',
+    TASK_BUDGET_EXCEEDED = 'TASK_BUDGET_EXCEEDED',
 
     // 页面相关
     PAGE_NOT_READY = 'PAGE_NOT_READY',
     ELEMENT_NOT_FOUND = 'ELEMENT_NOT_FOUND',
+    SITE_BLOCKED = 'SITE_BLOCKED',
 
     // 通用
     UNKNOWN = 'UNKNOWN',
@@ -56,9 +58,11 @@ const ERROR_RECOVERY_SUGGESTIONS: Record<AgentErrorCode, string> = {
     [AgentErrorCode.CONFIG_INVALID]: '配置无效，请检查设置页面',
     [AgentErrorCode.CONFIG_MISSING]: '缺少必要配置，请先完成设置',
     [AgentErrorCode.TASK_ABORTED]: '任务已被用户中止',
-    [AgentErrorCode.TASK_MAX_STEPS]: '任务步骤超过上限，请简化任务描述',
+    [AgentErrorCode.TASK_MAX_STEPS]: '任务步骤超过上限，请在设置中调高最大步数，或简化任务描述',
+    [AgentErrorCode.TASK_BUDGET_EXCEEDED]: '任务超出 Token 或时间预算，请在设置中调高预算，或拆分任务',
     [AgentErrorCode.PAGE_NOT_READY]: '页面尚未加载完成，请稍候',
     [AgentErrorCode.ELEMENT_NOT_FOUND]: '未找到目标元素，页面可能已发生变化',
+    [AgentErrorCode.SITE_BLOCKED]: '站点策略禁止 Agent 在此网站上运行，可在设置的「站点策略」中调整',
     [AgentErrorCode.UNKNOWN]: '发生未知错误，请查看日志获取详情',
 }
 
@@ -80,8 +84,10 @@ const USER_FRIENDLY_MESSAGES: Record<AgentErrorCode, string> = {
     [AgentErrorCode.CONFIG_MISSING]: '配置缺失',
     [AgentErrorCode.TASK_ABORTED]: '任务已中止',
     [AgentErrorCode.TASK_MAX_STEPS]: '任务步骤超限',
+    [AgentErrorCode.TASK_BUDGET_EXCEEDED]: '任务超出预算',
     [AgentErrorCode.PAGE_NOT_READY]: '页面未就绪',
     [AgentErrorCode.ELEMENT_NOT_FOUND]: '元素未找到',
+    [AgentErrorCode.SITE_BLOCKED]: '此网站禁止 Agent 操作',
     [AgentErrorCode.UNKNOWN]: '未知错误',
 }
 
@@ -3,7 +3,7 @@
  * All rights reserved.
  */
 import { PageController } from '../page-controller/PageController'
-import { Panel, SimulatorMask } from '../ui/index'
+import { Panel, SimulatorMask, type ApprovalDecision, type PlanItem } from '../ui/index'
 // chalk is unavailable in browser, use simple console instead
 interface ChalkFn {
 	(s: string): string
@@ -21,21 +21,62 @@ const chalk = {
 import zod from 'zod'
 
 import type { PageAgentConfig } from './config'
-import { MAX_STEPS } from './config/constants'
-import { LLM, type Tool } from './llms'
+import {
+	BROWSER_STATE_MAX_SHARE,
+	CONTEXT_RESERVED_TOKENS,
+	CONTEXT_RESPONSE_TOKENS,
+	EXTRACTION_MAX_PAGE_CHARS,
+	FAILURE_VERDICT,
+	HISTORY_KEEP_RECENT_STEPS,
+	HISTORY_OUTPUT_MAX_CHARS,
+	HISTORY_SUMMARY_MAX_TOKENS,
+	MAX_STEPS,
+	REPLAY_FIND_ATTEMPTS,
+	VISION_HIGHLIGHT_LABEL_OPACITY,
+	VISION_HIGHLIGHT_OPACITY,
+} from './config/constants'
+import { LLM, estimateTokens, type Message, type ModelRole, type Tool } from './llms'
+import COMPACTION_PROMPT from './prompts/compaction_prompt.md?raw'
+import EXTRACTION_PROMPT from './prompts/extraction_prompt.md?raw'
+import PLANNING_PROMPT from './prompts/planning_prompt.md?raw'
+import RISK_PROMPT from './prompts/risk_prompt.md?raw'
 import SYSTEM_PROMPT from './prompts/system_prompt.md?raw'
 import { tools, type PageAgentTool } from './tools'
-import { normalizeResponse, trimLines, uid, waitUntil } from './utils'
+import {
+	addUsage,
+	normalizeResponse,
+	normalizeUrl,
+	parsePartialJsonStrings,
+	trimLines,
+	truncate,
+	uid,
+	waitFor,
+	waitUntil,
+} from './utils'
+import { jsonSchemaToZod, type JsonSchema } from './utils/jsonSchema'
 import { assert } from './utils/assert'
 import { AgentError, AgentErrorCode } from './AgentError'
+import { MESSAGE_TYPES, type TaskTabInfo } from '../messages'
+import { ACTING_TOOLS, RISK_CATEGORIES, classifyRisk, type RiskAssessment, type RiskCategory } from './approval'
+import { URL_TOOLS, checkSitePolicy, describeSitePolicy, findSitePolicy } from './policy'
+import { Redactor } from './redaction'
+import { maskSecrets, secretPlaceholder } from './secrets'
+import { describeLocator, type ElementLocator } from '../page-controller/locator'
+import type { MacroStep } from './macro'
 
 export type { PageAgentConfig }
 export { tool, type PageAgentTool } from './tools'
+export type { Secret } from './secrets'
+export type { RedactionConfig, RedactionDetector } from './redaction'
+export type { SiteAccess, SitePolicy } from './policy'
+export type { ApprovalConfig, RiskCategory } from './approval'
 
 export interface AgentBrain {
 	evaluation_previous_goal: string
 	memory: string
 	next_goal: string
+	/** todo list after this step, with `planning` */
+	plan?: PlanItem[]
 }
 
 /**
@@ -45,6 +86,8 @@ export interface MacroToolInput {
 	evaluation_previous_goal?: string
 	memory?: string
 	next_goal?: string
+	/** the whole todo list, only when it changed */
+	plan?: PlanItem[]
 	action: Record<string, any>
 }
 
@@ -62,20 +105,40 @@ export interface AgentHistory {
 		name: string
 		input: any
 		output: string
+		/** structured data produced by the action, e.g. `extract_structured_data` */
+		data?: unknown
+		/** element the action acted on, for macros */
+		locator?: ElementLocator
+		/** true when replayed from a macro, false when the replay failed and the LLM took over */
+		replayed?: boolean
 	}
+	/** model that answered, unset for replayed steps */
+	model?: string
 	usage: {
 		promptTokens: number
 		completionTokens: number
 		totalTokens: number
+		/** part of `promptTokens` read from the prompt cache, when the provider reports it */
 		cachedTokens?: number
 		reasoningTokens?: number
 	}
 }
 
-export interface ExecutionResult {
-	success: boolean
-	data: string
-	history: AgentHistory[]
+/**
+ * - success: `data` of `outputSchema` when given, otherwise the text from `done`.
+ *   `extracted` is the result of the last `extract_structured_data`, if any.
+ * - failure: the text from `done` or the error message.
+ */
+export type ExecutionResult<TData = unknown> =
+	| { success: true; data: TData; extracted?: unknown; history: AgentHistory[] }
+	| { success: false; data: string; history: AgentHistory[] }
+
+export interface ExecuteOptions<TData = unknown> {
+	/**
+	 * Shape of the task result. `done` then requires `data` of this shape when the task succeeds.
+	 * @note Not kept when the task resumes on another page.
+	 */
+	outputSchema?: zod.ZodType<TData>
 }
 
 export class PageAgent extends EventTarget {
@@ -93,7 +156,25 @@ export class PageAgent extends EventTarget {
 	#abortController = new AbortController()
 	#llmRetryListener: ((e: Event) => void) | null = null
 	#llmErrorListener: ((e: Event) => void) | null = null
+	#llmModelChangeListener: ((e: Event) => void) | null = null
 	#beforeUnloadListener: ((e: Event) => void) | null = null
+	#newPageListener: ((e: Event) => void) | null = null
+	#suspendReason: string | null = null
+	#pendingNavigation: (() => Promise<void>) | null = null
+	#outputSchema: zod.ZodType | null = null
+	#startTime = Date.now()
+	/** data extracted during the current step */
+	#stepData: unknown = undefined
+	/** locator of the element the current step acts on */
+	#stepLocator: ElementLocator | null = null
+	/** usage of LLM calls made by tools during the current step */
+	#stepToolUsage: AgentHistory['usage'] | null = null
+	/** todo list of the task, see `AgentConfig.planning` */
+	#plan: PlanItem[] | null = null
+	/** usage of the planning call, counted in the first step */
+	#planningUsage: AgentHistory['usage'] | null = null
+	/** summary of the first `steps` history steps, see `LLMConfig.maxContextTokens` */
+	#historySummary: { steps: number; text: string } | null = null
 
 	/** Executive state flag */
 	running = false
@@ -101,6 +182,9 @@ export class PageAgent extends EventTarget {
 	/** PageController for DOM operations */
 	pageController: PageController
 
+	/** Personal data redaction, see `AgentConfig.redaction` */
+	redactor: Redactor
+
 	/** Fullscreen mask */
 	mask = new SimulatorMask()
 	/** History records */
@@ -129,6 +213,10 @@ export class PageAgent extends EventTarget {
 			getPaused: () => this.paused,
 		})
 		this.tools = new Map(tools)
+		this.redactor = new Redactor(this.config.redaction, this.config.initialRedactions)
+		if (this.config.vision && this.redactor.enabled) {
+			this.#log('Vision mode is off while redaction is on, screenshots cannot be redacted', 'warn')
+		}
 
 		// Initialize history if provided
 		if (this.config.initialHistory) {
@@ -136,7 +224,24 @@ export class PageAgent extends EventTarget {
 		}
 
 		// Initialize PageController with config
-		this.pageController = new PageController(this.config)
+		// vision mode needs highlight labels readable in the screenshot
+		this.pageController = new PageController(
+			this.#vision
+				? {
+						highlightOpacity: VISION_HIGHLIGHT_OPACITY,
+						highlightLabelOpacity: VISION_HIGHLIGHT_LABEL_OPACITY,
+						...this.config,
+					}
+				: this.config
+		)
+
+		// Listen to new pages opened by actions
+		this.#newPageListener = (e) => {
+			const { url, prevented } = (e as CustomEvent).detail
+			this.#log('Action opened a new page', 'info', { url, prevented })
+			void this.config.onNewPageOpen?.call(this, url)
+		}
+		this.pageController.addEventListener('newPage', this.#newPageListener)
 
 		// Listen to LLM events
 		this.#llmRetryListener = (e) => {
@@ -147,8 +252,14 @@ export class PageAgent extends EventTarget {
 			const { error } = (e as CustomEvent).detail
 			this.panel.update({ type: 'error', message: `step failed: ${error.message} ` })
 		}
+		this.#llmModelChangeListener = (e) => {
+			const { model, reason } = (e as CustomEvent).detail
+			this.#log(`Model changed to ${model}`, 'warn', { reason })
+			this.panel.update({ type: 'modelChange', model, reason })
+		}
 		this.#llm.addEventListener('retry', this.#llmRetryListener)
 		this.#llm.addEventListener('error', this.#llmErrorListener)
+		this.#llm.addEventListener('modelchange', this.#llmModelChangeListener)
 
 		if (this.config.customTools) {
 			for (const [name, tool] of Object.entries(this.config.customTools)) {
@@ -164,6 +275,10 @@ export class PageAgent extends EventTarget {
 			this.tools.delete('execute_javascript')
 		}
 
+		if (!this.config.attachments?.length) {
+			this.tools.delete('upload_file')
+		}
+
 		this.#beforeUnloadListener = (e) => {
 			if (!this.disposed) this.dispose('PAGE_UNLOADING')
 		}
@@ -213,14 +328,112 @@ export class PageAgent extends EventTarget {
 		// The execute() catch block will handle the UI update
 	}
 
+	/**
+	 * Suspend the task once the current step is recorded in history.
+	 * The task is not finished: another agent (e.g. in another tab) continues it with `initialHistory`.
+	 * `execute` then rejects with `AbortError`, same as when the page unloads.
+	 * @extension-only
+	 */
+	suspend(reason: string) {
+		this.#suspendReason = reason
+	}
+
+	/**
+	 * Whether steps carry a screenshot, see `AgentConfig.vision`
+	 */
+	get #vision(): boolean {
+		return !!this.config.vision && !this.redactor.enabled
+	}
+
+	/**
+	 * Reason passed to `suspend`, null if the task was not suspended
+	 * @extension-only
+	 */
+	get suspendReason(): string | null {
+		return this.#suspendReason
+	}
+
+	/**
+	 * Aborted when the task is stopped, for tools that tell a stop from a failure
+	 */
+	get abortSignal(): AbortSignal {
+		return this.#abortController.signal
+	}
+
+	/**
+	 * Navigate once the current step is recorded in history.
+	 * Navigating inside a tool would unload the page before the step is saved,
+	 * and the resumed task would not know the navigation happened.
+	 */
+	navigateAfterStep(navigate: () => Promise<void>) {
+		this.#pendingNavigation = navigate
+	}
+
+	#addStepToolUsage(toolUsage: AgentHistory['usage']) {
+		this.#stepToolUsage = this.#stepToolUsage ? addUsage(this.#stepToolUsage, toolUsage) : { ...toolUsage }
+	}
+
+	/**
+	 * Extract structured data from the whole page text with a secondary LLM call.
+	 * The result is validated against `jsonSchema` when given.
+	 */
+	async extractStructuredData(goal: string, jsonSchema?: JsonSchema): Promise<unknown> {
+		const pageUrl = await this.pageController.getCurrentUrl()
+		const pageTitle = await this.pageController.getPageTitle()
+		let pageText = truncate(await this.pageController.getPageText(), EXTRACTION_MAX_PAGE_CHARS)
+		pageText = this.redactor.redact(pageText)
+		if (this.config.transformPageContent) pageText = await this.config.transformPageContent(pageText)
+
+		const extractedDataTool: Tool<{ data: unknown }, unknown> = {
+			description: 'Return the extracted data',
+			inputSchema: zod.object({ data: jsonSchemaToZod(jsonSchema) }) as zod.ZodType<{ data: unknown }>,
+			execute: async (input) => input.data,
+		}
+
+		const userPrompt = `<extraction_goal>
+${goal}
+</extraction_goal>
+${jsonSchema ? `<schema>\n${JSON.stringify(jsonSchema)}\n</schema>\n` : ''}<page_content>
+Page: [${pageTitle}](${pageUrl})
+
+${pageText}
+</page_content>`
+
+		this.#reportStatus('正在提取页面数据...')
+		const result = await this.#llm.invoke(
+			this.#maskSecrets([
+				{ role: 'system', content: EXTRACTION_PROMPT },
+				{ role: 'user', content: userPrompt },
+			]),
+			{ ExtractedData: extractedDataTool },
+			this.#abortController.signal,
+			{ toolChoiceName: 'ExtractedData' }
+		)
+
+		this.#addStepToolUsage(result.usage)
+
+		this.#stepData = result.toolResult
+		this.#log('Structured data extracted', 'info', { goal, data: result.toolResult })
+		return result.toolResult
+	}
+
 	/**
 	 * @todo maybe return something?
 	 */
-	async execute(task: string): Promise<ExecutionResult> {
+	async execute<TData = unknown>(
+		task: string,
+		options: ExecuteOptions<TData> = {}
+	): Promise<ExecutionResult<TData>> {
 		if (!task) throw new Error('Task is required')
 		this.task = task
 		this.taskId = uid()
 		this.running = true
+		this.#outputSchema = options.outputSchema ?? null
+		// a resumed task keeps its original start time so the time limit covers the whole task
+		this.#startTime =
+			this.history.length > 0 && this.config.taskStartTime ? this.config.taskStartTime : Date.now()
+		this.#suspendReason = null
+		this.#pendingNavigation = null
 
 		const onBeforeStep = this.config.onBeforeStep || (() => void 0)
 		const onAfterStep = this.config.onAfterStep || (() => void 0)
@@ -252,6 +465,16 @@ export class PageAgent extends EventTarget {
 		}
 
 		try {
+			const blocked = await this.#checkSiteBlocked()
+			if (blocked) throw blocked
+
+			// a resumed task keeps its plan
+			this.#plan = [...this.history].reverse().find((h) => h.brain.plan)?.brain.plan ?? null
+			this.#planningUsage = null
+			this.#historySummary = null
+			if (this.#plan) this.panel.showPlan(this.#plan)
+			else if (this.config.planning && !this.config.macro) await this.#makePlan()
+
 			let step = this.history.length
 
 			while (true) {
@@ -264,60 +487,25 @@ export class PageAgent extends EventTarget {
 				// pause
 				await waitUntil(() => !this.paused)
 
-				// Update status to thinking
-				this.#reportStatus('思考中：分析页面状态...')
-				console.log(chalk.blue('Thinking...'))
-				this.panel.update({ type: 'thinking' })
+				// the page may have changed without a reload
+				const blocked = await this.#checkSiteBlocked()
+				if (blocked) throw blocked
 
-				const systemPrompt = this.#getSystemPrompt()
+				this.#stepData = undefined
+				this.#stepToolUsage = this.#planningUsage
+				this.#planningUsage = null
 
-				this.#reportStatus('思考中：提取页面元素...')
-				const userPrompt = await this.#assembleUserPrompt()
+				this.#stepLocator = null
 
-				console.log('[PageAgent] Invoking LLM at step', step)
-				this.#reportStatus('思考中：等待 AI 决策...')
-
-				const result = await this.#llm.invoke(
-					[
-						{
-							role: 'system',
-							content: systemPrompt,
-						},
-						{
-							role: 'user',
-							content: userPrompt,
-						},
-					],
-					{ AgentOutput: this.#packMacroTool() },
-					this.#abortController.signal,
-					{
-						toolChoiceName: 'AgentOutput',
-						normalizeResponse,
-					}
-				)
-				console.log('[PageAgent] LLM result received:', result)
-
-				const macroResult = result.toolResult as MacroToolResult
-				const input = macroResult.input
-				const output = macroResult.output
-				const brain = {
-					evaluation_previous_goal: input.evaluation_previous_goal || '',
-					memory: input.memory || '',
-					next_goal: input.next_goal || '',
-				}
-				const actionName = Object.keys(input.action)[0]
-				const action = {
-					name: actionName,
-					input: input.action[actionName],
-					output: output,
+				const replayStep = this.#getReplayStep()
+				const record = replayStep ? await this.#replay(replayStep) : await this.#think(step)
+				const { brain, action } = record
+				const actionName = action.name
+				this.history.push(record)
+				if (record.usage.totalTokens || record.model) {
+					this.panel.update({ type: 'usage', usage: record.usage, model: record.model })
 				}
 
-				this.history.push({
-					brain,
-					action,
-					usage: result.usage,
-				})
-
 				this.#log(`Step ${step} Decision: ${actionName}`, 'info', { brain, action })
 
 				console.log(chalk.green('Step finished:'), actionName)
@@ -325,25 +513,48 @@ export class PageAgent extends EventTarget {
 
 				await onAfterStep.call(this, step, this.history)
 
-				step++
-				if (step > MAX_STEPS) {
-					this.#onDone('Step count exceeded maximum limit', false)
-					const result: ExecutionResult = {
-						success: false,
-						data: 'Step count exceeded maximum limit',
-						history: this.history,
-					}
-					await onAfterTask.call(this, result)
-					return result
+				// the task continues elsewhere, leave the loop without finishing it
+				if (this.#suspendReason) {
+					this.#abortController.abort(this.#suspendReason)
+					throw new Error('AbortError')
+				}
+
+				if (this.#pendingNavigation) {
+					const navigate = this.#pendingNavigation
+					this.#pendingNavigation = null
+					this.#reportStatus('正在跳转页面...')
+					await navigate()
+					// Cross-document navigation unloads the page and the task resumes there with `initialHistory`.
+					// Same-document navigation (SPA) just continues with the next step.
+					await waitFor(1)
+					if (this.#abortController.signal.aborted) throw new Error('AbortError')
 				}
+
+				step++
 				if (actionName === 'done') {
 					const success = action.input?.success ?? false
 					const text = action.input?.text || 'no text provided'
 					console.log(chalk.green.bold('Task completed'), success, text)
 					this.#onDone(text, success)
-					const result: ExecutionResult = {
-						success,
-						data: text,
+					const result: ExecutionResult<TData> = success
+						? {
+								success,
+								data: (this.#outputSchema ? action.input?.data : text) as TData,
+								extracted: this.#getExtractedData(),
+								history: this.history,
+							}
+						: { success, data: text, history: this.history }
+					await onAfterTask.call(this, result)
+					return result
+				}
+
+				const limitError = this.#checkLimits()
+				if (limitError) {
+					this.#log(`Task stopped: ${limitError.message}`, 'warn', limitError)
+					this.#onDone(limitError.message, false, limitError)
+					const result: ExecutionResult<TData> = {
+						success: false,
+						data: limitError.message,
 						history: this.history,
 					}
 					await onAfterTask.call(this, result)
@@ -379,6 +590,13 @@ export class PageAgent extends EventTarget {
 					throw new Error('AbortError')
 				}
 
+				// Suspended: the caller hands the task over, no result to report
+				if (this.#suspendReason) {
+					this.#log('Task suspended', 'info', { reason: this.#suspendReason })
+					this.mask.hide()
+					throw new Error('AbortError')
+				}
+
 				this.#log('Task aborted', 'info', { reason: this.#abortController.signal.reason })
 				return {
 					success: false,
@@ -392,7 +610,7 @@ export class PageAgent extends EventTarget {
 
 			console.error('Task failed', agentError)
 			this.#onDone(agentError.userMessage, false, agentError)
-			const result: ExecutionResult = {
+			const result: ExecutionResult<TData> = {
 				success: false,
 				data: agentError.userMessage,
 				history: this.history,
@@ -404,6 +622,261 @@ export class PageAgent extends EventTarget {
 		}
 	}
 
+	/**
+	 * Ask the LLM for the next action and execute it
+	 */
+	async #think(step: number): Promise<AgentHistory> {
+		// Update status to thinking
+		this.#reportStatus('思考中：分析页面状态...')
+		console.log(chalk.blue('Thinking...'))
+		this.panel.update({ type: 'thinking' })
+
+		const model = this.#routeStep()
+
+		this.#reportStatus('思考中：提取页面元素...')
+		const messages = await this.#assembleMessages(model)
+
+		console.log('[PageAgent] Invoking LLM at step', step)
+		this.#reportStatus('思考中：等待 AI 决策...')
+
+		// with streaming, show the brain while it is being written
+		let streamedText = ''
+		const onToolCallDelta = (argumentsSoFar: string) => {
+			const brain = parsePartialJsonStrings(argumentsSoFar, ['evaluation_previous_goal', 'memory', 'next_goal'])
+			const text = [
+				brain.evaluation_previous_goal !== undefined && `✅: ${brain.evaluation_previous_goal}`,
+				brain.memory !== undefined && `💾: ${brain.memory}`,
+				brain.next_goal !== undefined && `🎯: ${brain.next_goal}`,
+			]
+				.filter(Boolean)
+				.join('\n')
+			if (!text || text === streamedText) return
+			streamedText = text
+			this.panel.update({ type: 'thinking', text, partial: true })
+		}
+
+		const result = await this.#llm.invoke(
+			this.#maskSecrets(messages),
+			{ AgentOutput: this.#packMacroTool() },
+			this.#abortController.signal,
+			{
+				toolChoiceName: 'AgentOutput',
+				normalizeResponse,
+				onToolCallDelta,
+				model,
+			}
+		)
+		console.log('[PageAgent] LLM result received:', result)
+
+		const macroResult = result.toolResult as MacroToolResult
+		const input = macroResult.input
+		const output = macroResult.output
+		const brain = {
+			evaluation_previous_goal: input.evaluation_previous_goal || '',
+			memory: input.memory || '',
+			next_goal: input.next_goal || '',
+			...(this.#plan && { plan: this.#plan }),
+		}
+		const actionName = Object.keys(input.action)[0]
+		const action = {
+			name: actionName,
+			input: input.action[actionName],
+			output: output,
+			...(this.#stepData !== undefined && { data: this.#stepData }),
+			...(this.#stepLocator && { locator: this.#stepLocator }),
+		}
+
+		const usage = this.#stepToolUsage ? addUsage(result.usage, this.#stepToolUsage) : { ...result.usage }
+
+		// side calls of the tool may have been answered by another model
+		return { brain, action, usage, model: result.model?.model ?? this.#llm.config.model }
+	}
+
+	/**
+	 * Ask the planner model for a todo list, then let the user review it unless `planReview` is off
+	 */
+	async #makePlan(): Promise<void> {
+		this.#reportStatus('正在制定计划...')
+		this.panel.update({ type: 'planning' })
+
+		const planTool: Tool<{ todos: string[] }, string[]> = {
+			description: 'Return the todo list',
+			inputSchema: zod.object({ todos: zod.array(zod.string()).min(1) }) as zod.ZodType<{ todos: string[] }>,
+			execute: async (input) => input.todos,
+		}
+
+		const userPrompt = `<user_request>
+${this.task}
+</user_request>
+${await this.#getBrowserState(this.#getPromptBudget() * BROWSER_STATE_MAX_SHARE)}`
+
+		const result = await this.#llm.invoke(
+			this.#maskSecrets([
+				{ role: 'system', content: PLANNING_PROMPT },
+				{ role: 'user', content: userPrompt },
+			]),
+			{ Plan: planTool },
+			this.#abortController.signal,
+			{ toolChoiceName: 'Plan', model: 'planner' }
+		)
+		this.#planningUsage = { ...result.usage }
+
+		let plan: PlanItem[] = (result.toolResult as string[]).map((text) => ({ text, done: false }))
+		this.#log('Plan made', 'info', { plan })
+
+		if (this.config.planReview ?? true) {
+			this.#reportStatus('等待确认计划...')
+			const signal = this.#abortController.signal
+			plan = await new Promise<PlanItem[]>((resolve, reject) => {
+				const onAbort = () => reject(new Error('AbortError'))
+				signal.addEventListener('abort', onAbort, { once: true })
+				void this.panel.reviewPlan(plan).then((reviewed) => {
+					signal.removeEventListener('abort', onAbort)
+					resolve(reviewed)
+				})
+			})
+			this.#log('Plan reviewed', 'info', { plan })
+		} else {
+			this.panel.showPlan(plan)
+		}
+
+		this.#plan = plan.length ? plan : null
+	}
+
+	/**
+	 * Model for the next LLM step, see `AgentConfig.modelRouting`
+	 */
+	#routeStep(): ModelRole {
+		if (!this.#llm.hasExecutor) return 'planner'
+		const { planOnStart = true, planOnFailure = true, planEvery = 0 } = this.config.modelRouting ?? {}
+
+		// replayed steps do not count, a failed replay hands over to the planner
+		const llmSteps = this.history.filter((h) => h.action.replayed === undefined).length
+		if (planOnStart && llmSteps === 0) return 'planner'
+
+		const last = this.history[this.history.length - 1]
+		if (planOnFailure && last && FAILURE_VERDICT.test(last.brain.evaluation_previous_goal)) return 'planner'
+
+		if (planEvery > 0 && llmSteps % planEvery === 0) return 'planner'
+
+		return 'executor'
+	}
+
+	/**
+	 * Next macro step to replay, null when there is no macro, it is finished,
+	 * or it failed and the LLM took over
+	 */
+	#getReplayStep(): MacroStep | null {
+		if (!this.config.macro) return null
+		if (!this.history.every((h) => h.action.replayed)) return null
+		return this.#macroSteps[this.history.length] ?? null
+	}
+
+	/** steps to replay, the LLM calls `done` itself so that the result comes from the current page */
+	get #macroSteps(): MacroStep[] {
+		return this.config.macro?.steps.filter((step) => step.name !== 'done') ?? []
+	}
+
+	/**
+	 * Find the element of a replayed step, waiting for the page to render it
+	 */
+	async #findReplayTarget(locator: ElementLocator): Promise<number | null> {
+		for (let attempt = 0; attempt < REPLAY_FIND_ATTEMPTS; attempt++) {
+			if (attempt > 0) await waitFor(1)
+			this.mask.wrapper.style.pointerEvents = 'none'
+			await this.pageController.updateTree()
+			this.mask.wrapper.style.pointerEvents = 'auto'
+			const index = await this.pageController.findElementIndex(locator)
+			if (index !== null) return index
+		}
+		return null
+	}
+
+	/**
+	 * Replay a macro step without the LLM.
+	 * A failed step is recorded with `replayed: false`, which hands the task over to the LLM.
+	 */
+	async #replay(macroStep: MacroStep): Promise<AgentHistory> {
+		const position = `${this.history.length + 1}/${this.#macroSteps.length}`
+		const brain = {
+			evaluation_previous_goal: '',
+			memory: '',
+			next_goal: `Replay macro step ${position}: ${macroStep.name}`,
+		}
+		const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+		const input = { ...macroStep.input }
+
+		this.#reportStatus(`回放中：第 ${position} 步...`)
+
+		const tool = this.tools.get(macroStep.name)
+		if (!tool) {
+			return {
+				brain,
+				action: {
+					name: macroStep.name,
+					input,
+					output: `❌ Replay stopped: tool ${macroStep.name} is not available. Continue the task from the current page.`,
+					replayed: false,
+				},
+				usage,
+			}
+		}
+
+		if (macroStep.locator) {
+			const index = await this.#findReplayTarget(macroStep.locator)
+			if (index === null) {
+				this.#log('Replay target not found, handing over to the LLM', 'warn', { macroStep })
+				return {
+					brain,
+					action: {
+						name: macroStep.name,
+						input,
+						output: `❌ Replay stopped: element ${describeLocator(macroStep.locator)} not found. Continue the task from the current page.`,
+						locator: macroStep.locator,
+						replayed: false,
+					},
+					usage,
+				}
+			}
+			input.index = index
+		}
+
+		// steps may have been edited by hand, or recorded by an older version of the tool
+		const parsed = tool.inputSchema.safeParse(input)
+		if (!parsed.success) {
+			const issues = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+			this.#log('Invalid replay step, handing over to the LLM', 'warn', { macroStep, issues })
+			return {
+				brain,
+				action: {
+					name: macroStep.name,
+					input,
+					output: `❌ Replay stopped: invalid input for ${macroStep.name} (${issues}). Continue the task from the current page.`,
+					locator: macroStep.locator,
+					replayed: false,
+				},
+				usage,
+			}
+		}
+
+		const { output } = await this.#packMacroTool().execute({ ...brain, action: { [macroStep.name]: parsed.data } })
+		const replayed = !output.startsWith('❌')
+		if (!replayed) this.#log('Replayed step failed, handing over to the LLM', 'warn', { macroStep, output })
+
+		return {
+			brain,
+			action: {
+				name: macroStep.name,
+				input: parsed.data,
+				output,
+				...(this.#stepData !== undefined && { data: this.#stepData }),
+				locator: this.#stepLocator ?? macroStep.locator,
+				replayed,
+			},
+			usage: this.#stepToolUsage ?? usage,
+		}
+	}
+
 	/**
 	 * Merge all tools into a single MacroTool with the following input:
 	 * - thinking: string
@@ -414,7 +887,26 @@ export class PageAgent extends EventTarget {
 	 * where action must be selected from tools defined in this.tools
 	 */
 	#packMacroTool(): Tool<MacroToolInput, MacroToolResult> {
-		const tools = this.tools
+		const tools = new Map(this.tools)
+
+		// require the caller's result shape from `done`
+		const doneTool = tools.get('done')
+		if (this.#outputSchema && doneTool) {
+			tools.set('done', {
+				...doneTool,
+				description: `${doneTool.description}success=true时必须在data中填写符合格式要求的结果。`,
+				inputSchema: zod
+					.object({
+						text: zod.string(),
+						success: zod.boolean().default(true),
+						data: this.#outputSchema.optional(),
+					})
+					.refine((input) => !input.success || input.data !== undefined, {
+						message: 'data is required when success is true',
+						path: ['data'],
+					}),
+			})
+		}
 
 		const actionSchemas = Array.from(tools.entries()).map(([toolName, tool]) => {
 			return zod.object({
@@ -431,6 +923,12 @@ export class PageAgent extends EventTarget {
 			evaluation_previous_goal: zod.string().optional(),
 			memory: zod.string().optional(),
 			next_goal: zod.string().optional(),
+			...(this.#plan && {
+				plan: zod
+					.array(zod.object({ text: zod.string(), done: zod.boolean() }))
+					.optional()
+					.describe('The whole todo list, only when an item is done or the plan has to change'),
+			}),
 			action: actionSchema,
 		})
 
@@ -446,7 +944,7 @@ export class PageAgent extends EventTarget {
 				const action = input.action
 
 				const toolName = Object.keys(action)[0]
-				const toolInput = action[toolName]
+				let toolInput = action[toolName]
 				const brain = trimLines(`✅: ${input.evaluation_previous_goal}
 							💾: ${input.memory}
 							🎯: ${input.next_goal}
@@ -455,19 +953,59 @@ export class PageAgent extends EventTarget {
 				console.log(brain)
 				this.panel.update({ type: 'thinking', text: brain })
 
+				if (input.plan?.length) {
+					this.#plan = input.plan
+					this.panel.showPlan(input.plan)
+				}
+
 				// Find the corresponding tool
 				const tool = tools.get(toolName)
 				assert(tool, `Tool ${toolName} not found. (@note should have been caught before this!!!)`)
 
+				// site policies, nothing runs before they are checked
+				const violation = await this.#checkSitePolicy(toolName, toolInput)
+				if (violation) {
+					this.#log('Action blocked by site policy', 'warn', { toolName, toolInput, violation })
+					this.panel.update({ type: 'actionBlocked', toolName, reason: violation })
+					return { input, output: violation }
+				}
+
+				// risky actions wait for the user, who may edit them
+				const decision = await this.#requestApproval(toolName, toolInput, tool)
+				if (decision.type === 'reject') {
+					const output = `❌ Rejected by the user${decision.feedback ? `: ${decision.feedback}` : '.'} Do not retry the same action, find another way or call done.`
+					return { input, output }
+				}
+				if (decision.args !== toolInput) {
+					toolInput = decision.args
+					input = { ...input, action: { [toolName]: toolInput } }
+
+					// edited arguments may point at another element or URL
+					const violation = await this.#checkSitePolicy(toolName, toolInput)
+					if (violation) {
+						this.#log('Edited action blocked by site policy', 'warn', { toolName, toolInput, violation })
+						this.panel.update({ type: 'actionBlocked', toolName, reason: violation })
+						return { input, output: violation }
+					}
+				}
+
 				console.log(chalk.blue.bold(`Executing tool: ${toolName} `), toolInput)
 				this.#reportStatus(`正在执行：${toolName}...`)
 				this.panel.update({ type: 'toolExecuting', toolName, args: toolInput })
 
+				// element identity for macros, the index is only valid until the next DOM update
+				if (typeof toolInput?.index === 'number') {
+					this.#stepLocator = await this.pageController.getElementLocator(toolInput.index)
+				}
+
 				const startTime = Date.now()
 
 				// Execute tool, bind `this` to PageAgent
 				let result = await tool.execute.bind(this)(toolInput)
 
+				// results may repeat page text, e.g. the text of the clicked element
+				result = this.redactor.redact(result)
+
 				const duration = Date.now() - startTime
 				this.#reportStatus(`执行完毕：${toolName}`)
 				console.log(chalk.green.bold(`Tool(${toolName}) executed for ${duration}ms`), result)
@@ -519,47 +1057,525 @@ export class PageAgent extends EventTarget {
 		return systemPrompt
 	}
 
-	async #assembleUserPrompt(): Promise<string> {
-		let prompt = ''
+	/**
+	 * Messages of a step, laid out for prompt caching: what stays the same comes first and
+	 * only the last message changes from one step to the next.
+	 *
+	 * - system prompt
+	 * - <agent_state>: the request and attachments
+	 * - <summary> of old steps, see `LLMConfig.maxContextTokens`
+	 * - each previous step as an `AgentOutput` call and its result
+	 * - <step_info>, <todo_list>, <planning>, <browser_state> and the screenshot
+	 */
+	async #assembleMessages(model: ModelRole): Promise<Message[]> {
+		const systemPrompt = this.#getSystemPrompt()
+		const budget = this.#getPromptBudget(systemPrompt)
 
-		// <agent_history>
-		//  - <step_>
+		// <agent_state>
+		//  - <user_request>
+		//  - <attachments>
+		// <agent_state>
+
+		const agentState = `<agent_state>
+<user_request>
+${this.task}
+</user_request>
+${this.#getAttachmentsInfo()}${this.#getSecretsInfo()}</agent_state>
+`
+
+		// <step_info>, <todo_list>, <planning>
+
+		let currentState = `<step_info>
+Step ${this.history.length + 1} of ${this.config.maxSteps ?? MAX_STEPS} max possible steps
+${this.#getBudgetInfo()}Current date and time: ${new Date().toISOString()}
+</step_info>
+${this.#getTodoInfo()}${this.#getPlanningInfo(model)}`
+
+		// <browser_state>, cut into parts when the page takes too much of the budget
+
+		currentState += await this.#getBrowserState(budget * BROWSER_STATE_MAX_SHARE)
+
+		// previous steps, compacted to what is left
+
+		const historyBudget = budget - estimateTokens(agentState) - estimateTokens(currentState)
+		const history = await this.#getHistoryMessages(historyBudget)
+
+		const messages: Message[] = [
+			{ role: 'system', content: systemPrompt },
+			{ role: 'user', content: trimLines(agentState) },
+			...history,
+		]
+
+		// highlights of the browser state are still drawn
+		const screenshot = this.#vision ? await this.#captureScreenshot() : null
+		if (!screenshot) return [...messages, { role: 'user', content: trimLines(currentState) }]
+
+		currentState += `\nA screenshot of the current viewport is attached. Interactive elements are boxed with their [index] in the label.\n`
+		return [
+			...messages,
+			{
+				role: 'user',
+				content: [
+					{ type: 'text', text: trimLines(currentState) },
+					{ type: 'image_url', image_url: { url: screenshot } },
+				],
+			},
+		]
+	}
 
-		prompt += '<agent_history>\n'
+	/**
+	 * Tokens left for the user prompt with `maxContextTokens`, Infinity without
+	 */
+	#getPromptBudget(systemPrompt = this.#getSystemPrompt()): number {
+		const { maxContextTokens, maxTokens } = this.#llm.config
+		if (!maxContextTokens) return Infinity
+
+		let reserved = estimateTokens(systemPrompt) + CONTEXT_RESERVED_TOKENS
+		reserved += maxTokens || CONTEXT_RESPONSE_TOKENS
+		if (this.#vision) reserved += estimateTokens([{ type: 'image_url', image_url: { url: '' } }])
+		return Math.max(maxContextTokens - reserved, 0)
+	}
+
+	/**
+	 * Previous steps as `AgentOutput` calls and their results. When they do not fit in `maxTokens`,
+	 * long action results are truncated, then steps before the recent ones are replaced by a summary.
+	 */
+	async #getHistoryMessages(maxTokens: number): Promise<Message[]> {
+		const limited = Number.isFinite(maxTokens)
+		const steps = this.history.map((history, index) => this.#toStepMessages(history, index, limited))
+
+		const stepTokens = steps.map((messages) =>
+			messages.reduce(
+				(sum, message) =>
+					sum + estimateTokens(message.content) + estimateTokens(message.tool_calls?.[0]?.function.arguments),
+				0
+			)
+		)
+		const tokensFrom = (start: number) => stepTokens.slice(start).reduce((sum, tokens) => sum + tokens, 0)
+		if (!limited || steps.length < 2 || tokensFrom(0) <= maxTokens) return steps.flat()
+
+		const withSummary = (summarized: number, summary: string): Message[] => [
+			{ role: 'user', content: `<summary>\nSummary of steps 1 to ${summarized}:\n${summary}\n</summary>` },
+			...steps.slice(summarized).flat(),
+		]
+
+		// the summary of previous steps is reused until the steps after it no longer fit
+		const previous = this.#historySummary
+		if (
+			previous &&
+			previous.steps < steps.length &&
+			estimateTokens(previous.text) + tokensFrom(previous.steps) <= maxTokens
+		) {
+			return withSummary(previous.steps, previous.text)
+		}
+
+		// keep as many recent steps as fit next to the summary, at least the last one
+		let keep = Math.min(HISTORY_KEEP_RECENT_STEPS, steps.length - 1)
+		while (keep > 1 && tokensFrom(steps.length - keep) + HISTORY_SUMMARY_MAX_TOKENS > maxTokens) keep--
+
+		const summarized = steps.length - keep
+		const summary = await this.#summarizeHistory(
+			this.history.slice(0, summarized).map((history, index) => this.#formatStep(history, index))
+		)
+		this.#log('History compacted', 'info', { summarized, kept: keep })
+
+		return withSummary(summarized, summary)
+	}
+
+	/**
+	 * A step as the `AgentOutput` call the model made and its result.
+	 * Replayed steps look the same, the model continues from them.
+	 */
+	#toStepMessages(history: AgentHistory, index: number, truncateOutput: boolean): Message[] {
+		const id = `step_${index + 1}`
+		const input = {
+			evaluation_previous_goal: history.brain.evaluation_previous_goal,
+			memory: history.brain.memory,
+			next_goal: history.brain.next_goal,
+			action: { [history.action.name]: history.action.input },
+		}
+		const output = truncateOutput ? truncate(history.action.output, HISTORY_OUTPUT_MAX_CHARS) : history.action.output
+		return [
+			{
+				role: 'assistant',
+				content: null,
+				tool_calls: [{ id, type: 'function', function: { name: 'AgentOutput', arguments: JSON.stringify(input) } }],
+			},
+			{ role: 'tool', tool_call_id: id, content: output },
+		]
+	}
 
-		this.history.forEach((history, index) => {
-			prompt += `<step_${index + 1}>
+	/**
+	 * A step as text, for the summary of old steps
+	 */
+	#formatStep(history: AgentHistory, index: number): string {
+		return `<step_${index + 1}>
 Evaluation of Previous Step: ${history.brain.evaluation_previous_goal}
 Memory: ${history.brain.memory}
 Next Goal: ${history.brain.next_goal}
-Action Results: ${history.action.output}
+Action Results: ${truncate(history.action.output, HISTORY_OUTPUT_MAX_CHARS)}
 </step_${index + 1}>
 `
-		})
-
-		prompt += '</agent_history>\n\n'
+	}
 
-		// <agent_state>
-		//  - <user_request>
-		//  - <step_info>
-		// <agent_state>
+	/**
+	 * Summary of the first steps of the history with a secondary LLM call.
+	 * The summary is kept and extended with the new steps only.
+	 */
+	async #summarizeHistory(steps: string[]): Promise<string> {
+		const previous = this.#historySummary
+		if (previous?.steps === steps.length) return previous.text
+
+		const summaryTool: Tool<{ summary: string }, string> = {
+			description: 'Return the summary',
+			inputSchema: zod.object({ summary: zod.string() }) as zod.ZodType<{ summary: string }>,
+			execute: async (input) => input.summary,
+		}
 
-		prompt += `<agent_state>
-<user_request>
+		// a summary of more steps than asked for is not reused, the history was restored
+		const newSteps = previous && previous.steps < steps.length ? steps.slice(previous.steps) : steps
+		const userPrompt = `<user_request>
 ${this.task}
 </user_request>
-<step_info>
-Step ${this.history.length + 1} of ${MAX_STEPS} max possible steps
-Current date and time: ${new Date().toISOString()}
-</step_info>
-</agent_state>
+${previous && previous.steps < steps.length ? `<previous_summary>\n${previous.text}\n</previous_summary>\n` : ''}<steps>
+${newSteps.join('')}</steps>`
+
+		this.#reportStatus('思考中：压缩历史记录...')
+		const result = await this.#llm.invoke(
+			this.#maskSecrets([
+				{ role: 'system', content: COMPACTION_PROMPT },
+				{ role: 'user', content: userPrompt },
+			]),
+			{ Summary: summaryTool },
+			this.#abortController.signal,
+			{ toolChoiceName: 'Summary', model: 'executor' }
+		)
+		this.#addStepToolUsage(result.usage)
+
+		this.#historySummary = { steps: steps.length, text: result.toolResult as string }
+		return this.#historySummary.text
+	}
+
+	/**
+	 * Screenshot of the viewport for vision mode, null if it cannot be taken.
+	 * The panel and the mask are hidden meanwhile so they do not cover the page.
+	 */
+	async #captureScreenshot(): Promise<string | null> {
+		const overlays = [this.panel.wrapper, this.mask.wrapper]
+		const visibility = overlays.map((el) => el.style.visibility)
+		overlays.forEach((el) => (el.style.visibility = 'hidden'))
+		try {
+			// let the page repaint, animation frames do not run in background tabs
+			await waitFor(0.1)
+			const response = await chrome.runtime.sendMessage({ type: MESSAGE_TYPES.CAPTURE_SCREENSHOT })
+			if (!response?.success) throw new Error(response?.error || 'No response')
+			return response.dataUrl
+		} catch (error) {
+			this.#log('Failed to capture screenshot, continuing without it', 'warn', {
+				error: (error as Error).message,
+			})
+			return null
+		} finally {
+			overlays.forEach((el, i) => (el.style.visibility = visibility[i]))
+		}
+	}
+
+	/**
+	 * Result of the last `extract_structured_data` of the task, undefined if nothing was extracted
+	 */
+	#getExtractedData(): unknown {
+		return [...this.history].reverse().find((h) => h.action.data !== undefined)?.action.data
+	}
+
+	/**
+	 * With model routing, the planner writes the plan the executor follows
+	 */
+	#getPlanningInfo(model: ModelRole): string {
+		if (model !== 'planner' || !this.#llm.hasExecutor) return ''
+		return `<planning>
+You are the planner for this step, a faster model takes the following steps and relies on your plan.
+Review the request and the history, then ${
+			this.#plan
+				? 'revise the todo list through `plan` if previous steps failed or it no longer fits.'
+				: 'write the complete remaining plan as a numbered list in memory, revising it if previous steps failed.'
+		}
+</planning>
+`
+	}
+
+	/**
+	 * The todo list, see `AgentConfig.planning`
+	 */
+	#getTodoInfo(): string {
+		if (!this.#plan) return ''
+		const items = this.#plan.map((item, i) => `${i + 1}. [${item.done ? 'x' : ' '}] ${item.text}`).join('\n')
+		return `<todo_list>
+${items}
+Send the whole list in \`plan\` when an item is done or the plan has to change, otherwise leave \`plan\` out.
+</todo_list>
 `
+	}
+
+	#getTotalTokens(): number {
+		return this.history.reduce((sum, h) => sum + (h.usage?.totalTokens ?? 0), 0)
+	}
+
+	#getElapsedSeconds(): number {
+		return Math.round((Date.now() - this.#startTime) / 1000)
+	}
+
+	/**
+	 * Budgets used so far, so the agent can wrap up before hitting them
+	 */
+	#getBudgetInfo(): string {
+		let info = ''
+		if (this.config.maxTotalTokens) {
+			info += `Tokens used: ${this.#getTotalTokens()} of ${this.config.maxTotalTokens} budget\n`
+		}
+		if (this.config.maxDuration) {
+			info += `Time elapsed: ${this.#getElapsedSeconds()}s of ${this.config.maxDuration}s budget\n`
+		}
+		return info
+	}
+
+	/**
+	 * Check step, token and time limits of the task, null if within all of them
+	 */
+	#checkLimits(): AgentError | null {
+		const context = { task: this.task, step: this.history.length }
+
+		const maxSteps = this.config.maxSteps ?? MAX_STEPS
+		if (this.history.length >= maxSteps) {
+			return new AgentError(
+				AgentErrorCode.TASK_MAX_STEPS,
+				`Step count exceeded maximum limit (${maxSteps})`,
+				{ context }
+			)
+		}
+
+		const totalTokens = this.#getTotalTokens()
+		if (this.config.maxTotalTokens && totalTokens >= this.config.maxTotalTokens) {
+			return new AgentError(
+				AgentErrorCode.TASK_BUDGET_EXCEEDED,
+				`Token budget exceeded (${totalTokens} / ${this.config.maxTotalTokens})`,
+				{ context }
+			)
+		}
+
+		const elapsed = this.#getElapsedSeconds()
+		if (this.config.maxDuration && elapsed >= this.config.maxDuration) {
+			return new AgentError(
+				AgentErrorCode.TASK_BUDGET_EXCEEDED,
+				`Time budget exceeded (${elapsed}s / ${this.config.maxDuration}s)`,
+				{ context }
+			)
+		}
+
+		return null
+	}
+
+	#getAttachmentsInfo(): string {
+		const attachments = this.config.attachments ?? []
+		if (!attachments.length) return ''
+
+		let info = '<attachments>\n'
+		for (const attachment of attachments) {
+			info += `- ${attachment.name}${attachment.description ? `: ${attachment.description}` : ''}\n`
+		}
+		return info + '</attachments>\n'
+	}
+
+	/**
+	 * Let the user approve the action if the rules or the model flag it as risky, see `AgentConfig.approval`.
+	 * The target element is outlined on the mask meanwhile.
+	 */
+	async #requestApproval(toolName: string, input: any, tool: PageAgentTool): Promise<ApprovalDecision> {
+		const approved: ApprovalDecision = { type: 'approve', args: input }
+		const config = this.config.approval
+		if (!config || !ACTING_TOOLS.includes(toolName)) return approved
+
+		const index = typeof input?.index === 'number' ? input.index : null
+		const element = index === null ? null : await this.pageController.getElement(index)
+		const risk =
+			classifyRisk(toolName, input, element, config.categories) ??
+			(config.llmJudge ? await this.#judgeRisk(toolName, input, index, config.categories) : null)
+		if (!risk) return approved
+
+		this.#log('Waiting for approval', 'info', { toolName, input, risk })
+		this.#reportStatus('等待确认操作...')
+		if (element) {
+			element.scrollIntoView({ block: 'nearest' })
+			this.mask.highlight(element.getBoundingClientRect())
+		}
+
+		const signal = this.#abortController.signal
+		let decision: ApprovalDecision
+		try {
+			decision = await new Promise<ApprovalDecision>((resolve, reject) => {
+				const onAbort = () => {
+					this.panel.closeApproval()
+					reject(new Error('AbortError'))
+				}
+				signal.addEventListener('abort', onAbort, { once: true })
+				void this.panel
+					.requestApproval({
+						toolName,
+						args: input,
+						reason: `${risk.category}: ${risk.reason}`,
+						validate: (args) => {
+							const result = tool.inputSchema.safeParse(args)
+							return result.success
+								? null
+								: result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+						},
+					})
+					.then((decision) => {
+						signal.removeEventListener('abort', onAbort)
+						resolve(decision)
+					})
+			})
+		} finally {
+			this.mask.highlight(null)
+		}
+
+		this.#log(decision.type === 'approve' ? 'Action approved' : 'Action rejected', 'info', { toolName, decision })
+		if (decision.type === 'reject') {
+			this.panel.update({ type: 'actionRejected', toolName, feedback: decision.feedback })
+		}
+		return decision
+	}
+
+	/**
+	 * Ask the model whether an action the rules let through is risky, see `ApprovalConfig.llmJudge`.
+	 * When the model cannot answer, the action is treated as risky.
+	 */
+	async #judgeRisk(
+		toolName: string,
+		input: any,
+		index: number | null,
+		categories: RiskCategory[] = RISK_CATEGORIES
+	): Promise<RiskAssessment | null> {
+		type Judgement = { risky: boolean; category?: RiskCategory; reason?: string }
+		const judgeTool: Tool<Judgement, Judgement> = {
+			description: 'Return whether the action needs the approval of the user',
+			inputSchema: zod.object({
+				risky: zod.boolean(),
+				category: zod.enum(['submit', 'purchase', 'delete', 'amount']).optional(),
+				reason: zod.string().optional(),
+			}) as zod.ZodType<Judgement>,
+			execute: async (input) => input,
+		}
+
+		const elementText = index === null ? undefined : await this.pageController.getElementText(index)
+		const userPrompt = `<user_request>
+${this.task}
+</user_request>
+Current Page: ${await this.pageController.getCurrentUrl()}
+<action>
+${JSON.stringify({ [toolName]: input })}
+</action>
+<element>
+${elementText ? this.redactor.redact(elementText) : 'none'}
+</element>`
+
+		this.#reportStatus('思考中：检查操作风险...')
+		try {
+			const result = await this.#llm.invoke(
+				this.#maskSecrets([
+					{ role: 'system', content: RISK_PROMPT },
+					{ role: 'user', content: userPrompt },
+				]),
+				{ Judge: judgeTool },
+				this.#abortController.signal,
+				{ toolChoiceName: 'Judge', model: 'executor' }
+			)
+			this.#addStepToolUsage(result.usage)
+
+			const judgement = result.toolResult as Judgement
+			this.#log('Risk judged', 'debug', { toolName, judgement })
+			if (!judgement.risky) return null
+			const category = judgement.category ?? 'submit'
+			if (!categories.includes(category)) return null
+			return { category, reason: judgement.reason || toolName }
+		} catch (error) {
+			if (this.#abortController.signal.aborted) throw error
+			this.#log('Failed to judge the risk of the action, asking the user', 'warn', {
+				error: (error as Error).message,
+			})
+			return { category: 'submit', reason: `${toolName} could not be checked` }
+		}
+	}
+
+	/**
+	 * Error to end the task with when the current site is blocked by `sitePolicies`
+	 */
+	async #checkSiteBlocked(): Promise<AgentError | null> {
+		const url = await this.pageController.getCurrentUrl()
+		const policy = findSitePolicy(this.config.sitePolicies ?? [], url)
+		if (policy?.access !== 'block') return null
+		return new AgentError(AgentErrorCode.SITE_BLOCKED, `Site blocked by policy: ${policy.pattern}`, {
+			recoverable: false,
+			context: { url },
+		})
+	}
+
+	/**
+	 * Why `sitePolicies` forbid the action, null if allowed.
+	 * Navigations are checked against the policy of their target as well.
+	 */
+	async #checkSitePolicy(toolName: string, input: any): Promise<string | null> {
+		const policies = this.config.sitePolicies ?? []
+		if (!policies.length) return null
+
+		const url = await this.pageController.getCurrentUrl()
+		const policy = findSitePolicy(policies, url)
+		if (policy) {
+			const element = typeof input?.index === 'number' ? await this.pageController.getElement(input.index) : null
+			const violation = checkSitePolicy(policy, toolName, element)
+			if (violation) return violation
+		}
 
-		// <browser_state>
+		// resolved the same way the tools resolve it, invalid URLs are left to the tool to report
+		const target = URL_TOOLS.includes(toolName) && typeof input?.url === 'string' ? normalizeUrl(input.url, url) : null
+		if (target && findSitePolicy(policies, target)?.access === 'block') {
+			return `❌ Blocked by site policy: the agent is not allowed on ${target}.`
+		}
+
+		return null
+	}
 
-		prompt += await this.#getBrowserState()
+	#getSecretsInfo(): string {
+		const secrets = this.config.secrets ?? []
+		if (!secrets.length) return ''
+
+		let info = '<secrets>\nType these with input_text by their placeholder, the values are hidden from you:\n'
+		for (const secret of secrets) {
+			info += `- ${secretPlaceholder(secret.name)}${secret.description ? `: ${secret.description}` : ''}\n`
+		}
+		return info + '</secrets>\n'
+	}
 
-		return trimLines(prompt)
+	/**
+	 * Messages with the values of `secrets` replaced by their placeholders, whatever part they come from
+	 */
+	#maskSecrets(messages: Message[]): Message[] {
+		const secrets = this.config.secrets ?? []
+		if (!secrets.length) return messages
+
+		const mask = (text: string) => maskSecrets(text, secrets)
+		return messages.map((message) => ({
+			...message,
+			content:
+				typeof message.content === 'string'
+					? mask(message.content)
+					: message.content?.map((part) => (part.type === 'text' ? { ...part, text: mask(part.text) } : part)),
+			...(message.tool_calls && {
+				tool_calls: message.tool_calls.map((toolCall) => ({
+					...toolCall,
+					function: { ...toolCall.function, arguments: mask(toolCall.function.arguments) },
+				})),
+			}),
+		}))
 	}
 
 	#onDone(text: string, success = true, error?: AgentError) {
@@ -587,7 +1603,10 @@ Current date and time: ${new Date().toISOString()}
 		this.#abortController.abort()
 	}
 
-	async #getBrowserState(): Promise<string> {
+	/**
+	 * @param maxTokens above this, only the part of the elements around the viewport is sent
+	 */
+	async #getBrowserState(maxTokens = Infinity): Promise<string> {
 		const pageUrl = await this.pageController.getCurrentUrl()
 		const pageTitle = await this.pageController.getPageTitle()
 		const pi = await this.pageController.getPageInfo()
@@ -597,13 +1616,27 @@ Current date and time: ${new Date().toISOString()}
 		await this.pageController.updateTree()
 		this.mask.wrapper.style.pointerEvents = 'auto'
 
-		const simplifiedHTML = await this.pageController.getSimplifiedHTML()
+		let simplifiedHTML = await this.pageController.getSimplifiedHTML()
+		let chunkInfo = ''
+		const tokens = estimateTokens(simplifiedHTML)
+		if (tokens > maxTokens) {
+			const maxChars = Math.floor((simplifiedHTML.length * maxTokens) / tokens)
+			const { html, chunk, chunks } = await this.pageController.getSimplifiedHTMLChunk(maxChars)
+			simplifiedHTML = html
+			chunkInfo = `... part ${chunk + 1} of ${chunks} of the elements, the page is too long to show at once - scroll to see the other parts ...\n`
+		}
+		simplifiedHTML = this.redactor.redact(simplifiedHTML)
+		if (this.config.transformPageContent) {
+			simplifiedHTML = await this.config.transformPageContent(simplifiedHTML)
+		}
+		const tabsInfo = await this.#getTabsInfo()
+		const policyInfo = describeSitePolicy(findSitePolicy(this.config.sitePolicies ?? [], pageUrl))
 
 		let prompt = trimLines(`<browser_state>
-Current Page: [${pageTitle}](${pageUrl})
+${tabsInfo}Current Page: [${pageTitle}](${pageUrl})
 
 Page info: ${pi.viewport_width}x${pi.viewport_height}px viewport, ${pi.page_width}x${pi.page_height}px total page size, ${pi.pages_above.toFixed(1)} pages above, ${pi.pages_below.toFixed(1)} pages below, ${pi.total_pages.toFixed(1)} total pages, at ${(pi.current_page_position * 100).toFixed(0)}% of page
-
+${policyInfo}
 ${viewportExpansion === -1 ? 'Interactive elements from top layer of the current page (full page):' : 'Interactive elements from top layer of the current page inside the viewport:'}
 
 `)
@@ -616,6 +1649,8 @@ ${viewportExpansion === -1 ? 'Interactive elements from top layer of the current
 			prompt += `[Start of page]\n`
 		}
 
+		prompt += chunkInfo
+
 		// Current viewport info
 		prompt += simplifiedHTML
 		prompt += `\n`
@@ -633,6 +1668,27 @@ ${viewportExpansion === -1 ? 'Interactive elements from top layer of the current
 		return prompt
 	}
 
+	/**
+	 * List tabs owned by the task, empty when the task only has the current tab.
+	 * @extension-only tabs are tracked by the background service worker
+	 */
+	async #getTabsInfo(): Promise<string> {
+		let tabs: TaskTabInfo[] = []
+		try {
+			const response = await chrome.runtime.sendMessage({ type: MESSAGE_TYPES.TAB_LIST })
+			tabs = response?.tabs || []
+		} catch (e) {
+			return ''
+		}
+		if (tabs.length <= 1) return ''
+
+		let info = 'Open tabs:\n'
+		for (const tab of tabs) {
+			info += `- Tab ${tab.id}: [${tab.title}](${tab.url})${tab.current ? ' (current)' : ''}\n`
+		}
+		return info + '\n'
+	}
+
 	dispose(reason?: string) {
 		if (this.disposed && reason !== 'PAGE_UNLOADING') return
 		console.log('Disposing PageAgent, reason:', reason)
@@ -658,6 +1714,15 @@ ${viewportExpansion === -1 ? 'Interactive elements from top layer of the current
 			this.#llm.removeEventListener('error', this.#llmErrorListener)
 			this.#llmErrorListener = null
 		}
+		if (this.#llmModelChangeListener) {
+			this.#llm.removeEventListener('modelchange', this.#llmModelChangeListener)
+			this.#llmModelChangeListener = null
+		}
+
+		if (this.#newPageListener) {
+			this.pageController.removeEventListener('newPage', this.#newPageListener)
+			this.#newPageListener = null
+		}
 
 		// Clean up window event listeners
 		if (this.#beforeUnloadListener) {
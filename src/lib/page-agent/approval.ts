@@ -0,0 +1,138 @@
+/**
+ * Risky actions that wait for the user's approval before they run.
+ *
+ * Rules look at the tool, its input and the element it acts on. With `llmJudge`, actions the rules
+ * let through are also shown to the model, see `PageAgent.#judgeRisk`.
+ */
+
+/**
+ * - submit: submits a form or confirms a dialog
+ * - purchase: buys, pays or transfers money
+ * - delete: deletes, removes or cancels something
+ * - amount: types or picks a money amount
+ */
+export type RiskCategory = 'submit' | 'purchase' | 'delete' | 'amount'
+
+export interface ApprovalConfig {
+	/** categories that need approval, all by default */
+	categories?: RiskCategory[]
+	/**
+	 * Also ask the model whether an action the rules let through is risky.
+	 * @note One more LLM call for each click and input, on the executor model if there is one.
+	 */
+	llmJudge?: boolean
+}
+
+export interface RiskAssessment {
+	category: RiskCategory
+	/** why, for the user */
+	reason: string
+}
+
+export const RISK_CATEGORIES: RiskCategory[] = ['purchase', 'delete', 'amount', 'submit']
+
+/** tools that change the page, the others never need approval */
+export const ACTING_TOOLS = [
+	'click_element_by_index',
+	'input_text',
+	'select_dropdown_option',
+	'set_widget_value',
+	'press_keys',
+	'upload_file',
+	'execute_javascript',
+]
+
+const PURCHASE_WORDS =
+	/购买|支付|付款|下单|结算|转账|汇款|充值|提现|打款|\b(buy|purchase|pay|checkout|place order|transfer|top up|withdraw)\b/i
+const DELETE_WORDS = /删除|移除|清空|注销|作废|撤销|解绑|\b(delete|remove|destroy|erase|clear all|revoke|unsubscribe)\b/i
+const SUBMIT_WORDS = /提交|确认|确定|发送|发布|保存|审批|通过|同意|\b(submit|confirm|send|publish|save|approve|apply)\b/i
+
+/** ¥100, $ 12.50, 100元, 3万元, 20 USD */
+const MONEY_AMOUNT =
+	/[¥￥$€£]\s*\d|\d(?:[\d,]*\d)?(?:\.\d+)?\s*(?:元|万元|块|美元|欧元|\b(?:CNY|RMB|USD|EUR|GBP|JPY)\b)/i
+/** fields meant for amounts, where any number is an amount */
+const AMOUNT_FIELD = /金额|价格|单价|总价|费用|\b(amount|price|cost|fee|total|payment)\b/i
+
+function getElementText(element: HTMLElement): string {
+	return [
+		element.textContent,
+		element.getAttribute('aria-label'),
+		element.getAttribute('title'),
+		element instanceof HTMLInputElement && ['submit', 'button'].includes(element.type) ? element.value : null,
+	]
+		.filter(Boolean)
+		.join(' ')
+		.replace(/\s+/g, ' ')
+		.trim()
+		.slice(0, 200)
+}
+
+function getFieldText(element: HTMLElement): string {
+	const labels = (element as HTMLInputElement).labels
+	return [
+		element.getAttribute('name'),
+		element.id,
+		element.getAttribute('placeholder'),
+		element.getAttribute('aria-label'),
+		...(labels ? Array.from(labels, (label) => label.textContent) : []),
+	]
+		.filter(Boolean)
+		.join(' ')
+}
+
+function isSubmitButton(element: HTMLElement): boolean {
+	const button = element.closest('button, input[type="submit"], input[type="image"]')
+	if (!button) return false
+	if (button instanceof HTMLInputElement) return true
+	// buttons in a form submit it unless they say otherwise
+	return (button as HTMLButtonElement).type === 'submit' && !!(button as HTMLButtonElement).form
+}
+
+/**
+ * Whether the action needs approval according to the rules, null if it does not
+ * @param element element the action acts on, if any
+ */
+export function classifyRisk(
+	toolName: string,
+	input: any,
+	element: HTMLElement | null,
+	categories: RiskCategory[] = RISK_CATEGORIES
+): RiskAssessment | null {
+	if (!ACTING_TOOLS.includes(toolName)) return null
+
+	// every rule the action matches, in order of priority, the first enabled category wins
+	const matches: RiskAssessment[] = []
+
+	// text typed or picked, and the text of the element
+	const value = typeof input?.text === 'string' ? input.text : typeof input?.value === 'string' ? input.value : ''
+	const text = element ? getElementText(element) : ''
+
+	if (toolName === 'click_element_by_index') {
+		const reason = `click "${text || element?.tagName.toLowerCase()}"`
+		if (PURCHASE_WORDS.test(text)) matches.push({ category: 'purchase', reason })
+		if (DELETE_WORDS.test(text)) matches.push({ category: 'delete', reason })
+		if (MONEY_AMOUNT.test(text)) matches.push({ category: 'amount', reason })
+		if (SUBMIT_WORDS.test(text) || (element && isSubmitButton(element))) matches.push({ category: 'submit', reason })
+	}
+
+	if (value) {
+		const isAmountField = !!element && AMOUNT_FIELD.test(getFieldText(element)) && /\d/.test(value)
+		if (MONEY_AMOUNT.test(value) || isAmountField) matches.push({ category: 'amount', reason: `enter "${value}"` })
+	}
+
+	// Enter submits the focused form
+	if (toolName === 'press_keys' && Array.isArray(input?.keys) && input.keys.includes('Enter')) {
+		matches.push({ category: 'submit', reason: 'press Enter' })
+	}
+
+	if (toolName === 'execute_javascript' && typeof input?.script === 'string') {
+		const script = input.script
+		if (/\.submit\(|\.requestSubmit\(/.test(script)) {
+			matches.push({ category: 'submit', reason: 'run a script that submits a form' })
+		} else if (/\bfetch\(|XMLHttpRequest|\.click\(/.test(script)) {
+			matches.push({ category: 'submit', reason: 'run a script that acts on the page' })
+		}
+	}
+
+	return matches.find((match) => categories.includes(match.category)) ?? null
+}
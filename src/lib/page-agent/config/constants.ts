@@ -1,2 +1,34 @@
 // Agent-specific constants (LLM constants moved to @page-agent/llms)
+/** Default step limit of a task, see `AgentConfig.maxSteps` */
 export const MAX_STEPS = 20
+
+/**
+ * Failure verdict of `evaluation_previous_goal`: "判定：失败" as the system prompt asks, or a leading "Failed".
+ * Not "no failures" or "failsafe".
+ */
+export const FAILURE_VERDICT = /(?:^|(?:判定|verdict)\s*[:：])\s*(?:失败|fail(?:ed|ure)?\b)/i
+
+/** Attempts to find the element of a replayed macro step, one second apart while the page renders */
+export const REPLAY_FIND_ATTEMPTS = 3
+
+/** Page text sent to the extraction LLM call, in characters */
+export const EXTRACTION_MAX_PAGE_CHARS = 60_000
+/** Extracted JSON shown to the agent in the action result, in characters */
+export const EXTRACTION_MAX_OUTPUT_CHARS = 4_000
+
+/** Tokens kept free for the tool definitions with `maxContextTokens`, the response gets `maxTokens` on top */
+export const CONTEXT_RESERVED_TOKENS = 2_000
+/** Response size assumed when `maxTokens` is not set */
+export const CONTEXT_RESPONSE_TOKENS = 4_096
+/** Share of the prompt the browser state may take before it is cut into parts */
+export const BROWSER_STATE_MAX_SHARE = 0.5
+/** Action results in the history are truncated to this with `maxContextTokens`, in characters */
+export const HISTORY_OUTPUT_MAX_CHARS = 2_000
+/** Steps kept verbatim when older ones are summarized */
+export const HISTORY_KEEP_RECENT_STEPS = 5
+/** Room left for the summary of old steps */
+export const HISTORY_SUMMARY_MAX_TOKENS = 1_000
+
+/** Highlight opacities in vision mode, the model reads element indexes from the labels in the screenshot */
+export const VISION_HIGHLIGHT_OPACITY = 0.1
+export const VISION_HIGHLIGHT_LABEL_OPACITY = 0.8
@@ -2,6 +2,11 @@ import type { LLMConfig } from '../llms'
 import type { PageControllerConfig } from '../../page-controller/PageController'
 import type { SupportedLanguage } from '../../ui'
 
+import type { Macro } from '../macro'
+import type { ApprovalConfig } from '../approval'
+import type { SitePolicy } from '../policy'
+import type { RedactionConfig } from '../redaction'
+import type { Secret } from '../secrets'
 import type { AgentHistory, ExecutionResult, PageAgent } from '../PageAgent'
 import type { PageAgentTool } from '../tools'
 
@@ -42,6 +47,54 @@ export interface AgentConfig {
 	 */
 	customTools?: Record<string, PageAgentTool | null>
 
+	/**
+	 * Maximum steps of a task. Steps resumed from `initialHistory` count.
+	 * @default 20
+	 */
+	maxSteps?: number
+
+	/**
+	 * Token budget of a task, the sum of `AgentHistory.usage.totalTokens`. 0 or undefined for no limit.
+	 * @note Checked after each step, the last step may go over it.
+	 */
+	maxTotalTokens?: number
+
+	/**
+	 * Wall-clock limit of a task in seconds, paused time included. 0 or undefined for no limit.
+	 * @note Checked after each step, the last step may go over it.
+	 */
+	maxDuration?: number
+
+	/**
+	 * Which steps the planner, the main model, takes when `LLMConfig.executor` is set.
+	 * The executor takes the other steps. The planner is asked to write or revise the plan in its memory.
+	 */
+	modelRouting?: {
+		/**
+		 * First LLM step of the task, including when the LLM takes over a failed macro replay
+		 * @default true
+		 */
+		planOnStart?: boolean
+		/**
+		 * The step after one whose `evaluation_previous_goal` ends with a failure verdict (`判定：失败`)
+		 * @default true
+		 */
+		planOnFailure?: boolean
+		/**
+		 * Every n steps, to check the plan is still on track. 0 for never.
+		 * @default 0
+		 */
+		planEvery?: number
+	}
+
+	/**
+	 * Replay the steps of a recorded macro instead of asking the LLM.
+	 * When a step fails (e.g. its element is gone), the LLM takes over the task from there.
+	 * After the last step the LLM checks the page and calls `done`, recorded `done` steps are not replayed.
+	 * Replayed steps are kept in history, so the replay continues after a page load with `initialHistory`.
+	 */
+	macro?: Macro
+
 	/**
 	 * Instructions to guide the agent's behavior
 	 */
@@ -103,17 +156,51 @@ export interface AgentConfig {
 	transformPageContent?: (content: string) => Promise<string> | string
 
 	/**
-	 * TODO: @unimplemented
+	 * Sensitive values the agent types without seeing them, e.g. passwords.
+	 * Tasks refer to them as `{{secret:name}}` and `input_text` types the value in place of the placeholder.
+	 * Values are masked back to placeholders in everything sent to the LLM.
+	 * @note Only names and descriptions are given to the agent.
+	 * @note Values typed into a page are visible to the page, and to screenshots in vision mode.
+	 */
+	secrets?: Secret[]
+
+	/**
+	 * Redact personal data in page content and action results before they are sent to the LLM.
+	 * Values are replaced by placeholders such as `{{pii:phone_3f2a1c}}`, which `input_text` types back as the original value.
+	 * Runs before `transformPageContent`.
+	 * @note Placeholders are typed back for values seen since the agent was created, and for `initialRedactions`.
+	 * @note Screenshots cannot be redacted, `vision` is ignored while redaction is on.
+	 */
+	redaction?: RedactionConfig
+
+	/**
+	 * Where the agent may act and what it must never do there, the first policy matching the page URL applies.
+	 * Tasks do not run on blocked sites, actions breaking the policy are refused before they run.
+	 * @see [policy](../policy.ts)
+	 */
+	sitePolicies?: SitePolicy[]
+
+	/**
+	 * Wait for the user to approve risky actions in the panel before they run: submits, purchases, deletes and money amounts.
+	 * The user may edit the arguments first. A rejection is returned to the model as the output of the action.
+	 * Unset to run every action without asking.
+	 * @see [approval](../approval.ts)
+	 */
+	approval?: ApprovalConfig
+
+	/**
 	 * hook when action causes a new page to be opened
-	 * @note PageAgent will try to detect new pages and decide if it's caused by an action. But not very reliable.
+	 * @note Detects anchors and forms with a new-page `target`, and `window.open` calls made while the action runs.
+	 * Pages opened by other means (e.g. delayed scripts) are not detected.
+	 * @note Also called when `experimentalPreventNewPage` turned the new page into a same-tab navigation.
 	 * @todo remove `this` binding, pass agent as explicit parameter instead
 	 */
 	onNewPageOpen?: (this: PageAgent, url: string) => Promise<void> | void
 
 	/**
-	 * TODO: @unimplemented
 	 * try to navigate to a new page instead of opening a new tab/window.
 	 * @note will unload the current page when a action tries to open a new page. so that things keep in the same tab/window.
+	 * @note `target` attributes are rewritten to `_self` during the click, `window.open` navigates the current tab.
 	 */
 	experimentalPreventNewPage?: boolean
 
@@ -125,6 +212,51 @@ export interface AgentConfig {
 	 */
 	initialHistory?: AgentHistory[]
 
+	/**
+	 * Start time of the task (ms) when resuming with `initialHistory`, so `maxDuration` covers the whole task.
+	 * @extension-only
+	 */
+	taskStartTime?: number
+
+	/**
+	 * Redacted values of the task when resuming with `initialHistory` (placeholder -> original value),
+	 * so placeholders in the history can still be typed back. See `Redactor.values`.
+	 * @extension-only
+	 */
+	initialRedactions?: Record<string, string>
+
+	/**
+	 * Files the agent may upload with `upload_file`. The tool is removed when empty.
+	 * @note Only names are given to the agent, local paths stay in the background worker.
+	 * @extension-only
+	 */
+	attachments?: { name: string; description?: string }[]
+
+	/**
+	 * Attach a screenshot of the viewport to each step, with element indexes drawn by the highlights.
+	 * Lets the agent see canvas charts, icon-only buttons and other visual cues missing from the page text.
+	 * @note The model must accept image inputs.
+	 * @note Highlights become visible to the user, unless `highlightOpacity` / `highlightLabelOpacity` are set.
+	 * @note Off while `redaction` is on, screenshots would show the redacted values.
+	 * @extension-only
+	 */
+	vision?: boolean
+
+	/**
+	 * Plan the task as a numbered todo list before the first step.
+	 * The list is carried in every prompt, the agent checks items off and revises it as it goes,
+	 * and the panel shows it as a checklist.
+	 * @note Skipped when replaying a macro, and when a resumed task already has a plan.
+	 * @default false
+	 */
+	planning?: boolean
+
+	/**
+	 * With `planning`, wait for the user to edit, reorder and confirm the plan in the panel before the first step
+	 * @default true
+	 */
+	planReview?: boolean
+
 	/**
 	 * Callback to report status updates to the extension UI.
 	 * @extension-only
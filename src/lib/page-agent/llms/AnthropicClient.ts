@@ -0,0 +1,321 @@
+/**
+ * Anthropic Messages API client
+ * @see https://docs.anthropic.com/en/api/messages
+ *
+ * Differences from the OpenAI format:
+ * - system prompts are a top-level `system` field instead of messages
+ * - tool calls and tool results are `tool_use` / `tool_result` content blocks
+ * - prompts are cached only up to explicit `cache_control` breakpoints
+ * - `input_tokens` does not include cached tokens
+ */
+import { ANTHROPIC_MAX_TOKENS, ANTHROPIC_VERSION } from './constants'
+import { InvokeError, InvokeErrorType } from './errors'
+import type { ContentPart, InvokeOptions, InvokeResult, LLMClient, LLMConfig, Message, Tool } from './types'
+import {
+	executeToolCall,
+	parseDataUrl,
+	parseToolArguments,
+	proxyFetch,
+	proxyFetchStream,
+	zodToAnthropicTool,
+} from './utils'
+
+type AnthropicBlock = Record<string, any>
+
+interface AnthropicMessage {
+	role: 'user' | 'assistant'
+	content: AnthropicBlock[]
+}
+
+const CACHE_CONTROL = { type: 'ephemeral' } as const
+
+export class AnthropicClient implements LLMClient {
+	config: LLMConfig
+
+	constructor(config: LLMConfig) {
+		this.config = config
+	}
+
+	async invoke(
+		messages: Message[],
+		tools: Record<string, Tool>,
+		abortSignal?: AbortSignal,
+		options?: InvokeOptions
+	): Promise<InvokeResult> {
+		// 1. Convert tools and messages to Anthropic format
+		const anthropicTools = Object.entries(tools).map(([name, tool]) => zodToAnthropicTool(name, tool))
+		const { system, messages: anthropicMessages } = convertMessages(messages)
+
+		// Cache breakpoints: tools, system prompt and the conversation before the last user message.
+		// The cached prefix is tools -> system -> messages, each breakpoint caches everything before it.
+		// The last user message holds the current state, it changes every call and is not worth writing.
+		if (anthropicTools.length) {
+			Object.assign(anthropicTools[anthropicTools.length - 1], { cache_control: CACHE_CONTROL })
+		}
+		if (system.length) system[system.length - 1].cache_control = CACHE_CONTROL
+		const lastInput = messages[messages.length - 1]
+		const volatileBlocks = lastInput?.role === 'user' ? convertContent(lastInput.content).length : 0
+		const blocks = anthropicMessages.flatMap((message) => message.content)
+		const lastStableBlock = blocks[blocks.length - 1 - volatileBlocks]
+		if (lastStableBlock) lastStableBlock.cache_control = CACHE_CONTROL
+
+		// 2. Prepare request options
+		const url = `${this.config.baseURL}/messages`
+		const body = JSON.stringify({
+			model: this.config.model,
+			max_tokens: this.config.maxTokens || ANTHROPIC_MAX_TOKENS,
+			temperature: this.config.temperature,
+			...(system.length > 0 && { system }),
+			messages: anthropicMessages,
+
+			tools: anthropicTools,
+			// Require tool call: specific tool if provided, otherwise any tool
+			tool_choice: options?.toolChoiceName
+				? { type: 'tool', name: options.toolChoiceName, disable_parallel_tool_use: true }
+				: { type: 'any', disable_parallel_tool_use: true },
+
+			...(this.config.stream && { stream: true }),
+		})
+		const headers = {
+			'Content-Type': 'application/json',
+			'x-api-key': this.config.apiKey ?? '',
+			'anthropic-version': ANTHROPIC_VERSION,
+			// requests from the extension carry an Origin header, the API rejects them without this
+			'anthropic-dangerous-direct-browser-access': 'true',
+		}
+
+		// 3. Call API via Proxy (Background Script) to avoid CORS/CSP issues
+		const data = this.config.stream
+			? await readMessageStream(url, headers, body, abortSignal, options?.onToolCallDelta)
+			: await proxyFetch(url, headers, body)
+
+		// 4. Check stop_reason
+		switch (data.stop_reason) {
+			case 'tool_use':
+			case 'end_turn': // answered with text, will try to parse
+				// ✅ Normal
+				break
+			case 'max_tokens':
+				// ⚠️ Token limit reached
+				throw new InvokeError(
+					InvokeErrorType.CONTEXT_LENGTH,
+					'Response truncated: max tokens reached',
+					data
+				)
+			case 'refusal':
+				// ❌ Content filtered
+				throw new InvokeError(
+					InvokeErrorType.CONTENT_FILTER,
+					'Content filtered by safety system',
+					data
+				)
+			default:
+				throw new InvokeError(
+					InvokeErrorType.UNKNOWN,
+					`Unexpected stop_reason: ${data.stop_reason}`,
+					data
+				)
+		}
+
+		// Apply normalizeResponse if provided, it works on the OpenAI format
+		const openaiData = toOpenAIResponse(data)
+		const normalizedData = options?.normalizeResponse ? options.normalizeResponse(openaiData) : openaiData
+
+		// 5. Parse tool call
+		const toolCall = normalizedData.choices?.[0]?.message?.tool_calls?.[0]
+		if (!toolCall) {
+			throw new InvokeError(InvokeErrorType.NO_TOOL_CALL, 'No tool call found in response', data)
+		}
+
+		let toolArgs: unknown
+		try {
+			toolArgs = JSON.parse(toolCall.function.arguments)
+		} catch (e) {
+			throw new InvokeError(InvokeErrorType.INVALID_TOOL_ARGS, 'Invalid JSON in tool arguments', e)
+		}
+
+		// 6. Validate and execute tool
+		const { toolName, args, toolResult } = await executeToolCall(tools, toolCall.function.name, toolArgs, data)
+
+		// 7. Return result (including cache tokens)
+		const cacheRead = data.usage?.cache_read_input_tokens ?? 0
+		const cacheWrite = data.usage?.cache_creation_input_tokens ?? 0
+		const promptTokens = (data.usage?.input_tokens ?? 0) + cacheRead + cacheWrite
+		const completionTokens = data.usage?.output_tokens ?? 0
+		return {
+			toolCall: {
+				name: toolName,
+				args,
+			},
+			toolResult,
+			usage: {
+				promptTokens,
+				completionTokens,
+				totalTokens: promptTokens + completionTokens,
+				cachedTokens: cacheRead,
+			},
+			rawResponse: data,
+		}
+	}
+}
+
+/**
+ * Convert OpenAI-style messages to Anthropic messages and system blocks.
+ * Tool results become user turns, consecutive turns of the same role are merged since roles must alternate.
+ */
+function convertMessages(messages: Message[]): { system: AnthropicBlock[]; messages: AnthropicMessage[] } {
+	const system: AnthropicBlock[] = []
+	const converted: AnthropicMessage[] = []
+
+	const push = (role: AnthropicMessage['role'], content: AnthropicBlock[]) => {
+		if (!content.length) return
+		const last = converted[converted.length - 1]
+		if (last?.role === role) last.content.push(...content)
+		else converted.push({ role, content })
+	}
+
+	for (const message of messages) {
+		switch (message.role) {
+			case 'system':
+				system.push(...convertContent(message.content))
+				break
+			case 'user':
+				push('user', convertContent(message.content))
+				break
+			case 'assistant':
+				push('assistant', [
+					...convertContent(message.content),
+					...(message.tool_calls ?? []).map((toolCall) => ({
+						type: 'tool_use',
+						id: toolCall.id,
+						name: toolCall.function.name,
+						input: parseToolArguments(toolCall.function.arguments),
+					})),
+				])
+				break
+			case 'tool':
+				push('user', [
+					{
+						type: 'tool_result',
+						tool_use_id: message.tool_call_id,
+						content: convertContent(message.content),
+					},
+				])
+				break
+		}
+	}
+
+	return { system, messages: converted }
+}
+
+function convertContent(content: Message['content']): AnthropicBlock[] {
+	if (!content) return []
+	if (typeof content === 'string') return [{ type: 'text', text: content }]
+	return content.map(convertContentPart)
+}
+
+function convertContentPart(part: ContentPart): AnthropicBlock {
+	if (part.type === 'text') return { type: 'text', text: part.text }
+
+	const image = parseDataUrl(part.image_url.url)
+	if (image) return { type: 'image', source: { type: 'base64', media_type: image.mimeType, data: image.data } }
+	return { type: 'image', source: { type: 'url', url: part.image_url.url } }
+}
+
+/**
+ * Anthropic response in the OpenAI format, for `InvokeOptions.normalizeResponse`
+ */
+function toOpenAIResponse(data: any) {
+	const content: AnthropicBlock[] = data.content ?? []
+	const toolUse = content.find((block) => block.type === 'tool_use')
+	const text = content
+		.filter((block) => block.type === 'text')
+		.map((block) => block.text)
+		.join('')
+	return {
+		choices: [
+			{
+				message: {
+					role: 'assistant',
+					content: text,
+					...(toolUse && {
+						tool_calls: [
+							{
+								id: toolUse.id,
+								type: 'function',
+								function: { name: toolUse.name, arguments: JSON.stringify(toolUse.input) },
+							},
+						],
+					}),
+				},
+				finish_reason: toolUse ? 'tool_calls' : 'stop',
+			},
+		],
+	}
+}
+
+/**
+ * Stream a message and put the events back together into a regular response
+ * @see https://docs.anthropic.com/en/docs/build-with-claude/streaming
+ */
+async function readMessageStream(
+	url: string,
+	headers: Record<string, string>,
+	body: string,
+	abortSignal?: AbortSignal,
+	onToolCallDelta?: (argumentsSoFar: string) => void
+): Promise<any> {
+	let message: any = null
+	// tool inputs arrive as JSON fragments, parsed once the block is complete
+	const partialJson = new Map<number, string>()
+
+	await proxyFetchStream(
+		url,
+		headers,
+		body,
+		(data) => {
+			const event = JSON.parse(data)
+			switch (event.type) {
+				case 'message_start':
+					message = { ...event.message, content: [] }
+					break
+				case 'content_block_start':
+					message.content[event.index] = { ...event.content_block }
+					if (event.content_block.type === 'tool_use') partialJson.set(event.index, '')
+					break
+				case 'content_block_delta': {
+					const block = message.content[event.index]
+					if (event.delta.type === 'text_delta') {
+						block.text += event.delta.text
+					} else if (event.delta.type === 'input_json_delta') {
+						const json = partialJson.get(event.index) + event.delta.partial_json
+						partialJson.set(event.index, json)
+						onToolCallDelta?.(json)
+					}
+					break
+				}
+				case 'content_block_stop':
+					if (partialJson.has(event.index)) {
+						message.content[event.index].input = parseToolArguments(partialJson.get(event.index) || '{}')
+					}
+					break
+				case 'message_delta':
+					Object.assign(message, event.delta)
+					message.usage = { ...message.usage, ...event.usage }
+					break
+				case 'error':
+					throw new InvokeError(
+						event.error?.type === 'overloaded_error'
+							? InvokeErrorType.SERVER_ERROR
+							: InvokeErrorType.UNKNOWN,
+						`Stream error: ${event.error?.message}`,
+						event
+					)
+			}
+		},
+		abortSignal
+	)
+
+	if (!message) throw new InvokeError(InvokeErrorType.UNKNOWN, 'Empty stream')
+	return message
+}
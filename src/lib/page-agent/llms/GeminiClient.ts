@@ -0,0 +1,246 @@
+/**
+ * Google Gemini API client (Google AI Studio)
+ * @see https://ai.google.dev/api/generate-content
+ *
+ * Differences from the OpenAI format:
+ * - the model is part of the URL, the system prompt is `systemInstruction`
+ * - messages are `contents` with `user` / `model` roles made of `parts`
+ * - tool calls and tool results are `functionCall` / `functionResponse` parts, matched by name
+ * - tool parameters only accept a subset of OpenAPI 3.0, see `zodToGeminiTool`
+ */
+import { InvokeError, InvokeErrorType } from './errors'
+import type { ContentPart, InvokeOptions, InvokeResult, LLMClient, LLMConfig, Message, Tool } from './types'
+import { executeToolCall, parseDataUrl, parseToolArguments, proxyFetch, zodToGeminiTool } from './utils'
+
+type GeminiPart = Record<string, any>
+
+interface GeminiContent {
+	role: 'user' | 'model'
+	parts: GeminiPart[]
+}
+
+export class GeminiClient implements LLMClient {
+	config: LLMConfig
+
+	constructor(config: LLMConfig) {
+		this.config = config
+	}
+
+	async invoke(
+		messages: Message[],
+		tools: Record<string, Tool>,
+		abortSignal?: AbortSignal,
+		options?: InvokeOptions
+	): Promise<InvokeResult> {
+		// 1. Convert tools and messages to Gemini format
+		const functionDeclarations = Object.entries(tools).map(([name, tool]) => zodToGeminiTool(name, tool))
+		const { systemInstruction, contents } = convertMessages(messages)
+
+		// 2. Prepare request options
+		const url = `${this.config.baseURL}/models/${this.config.model}:generateContent`
+		const body = JSON.stringify({
+			...(systemInstruction && { systemInstruction }),
+			contents,
+
+			tools: [{ functionDeclarations }],
+			// Require tool call: specific tool if provided, otherwise any tool
+			toolConfig: {
+				functionCallingConfig: {
+					mode: 'ANY',
+					...(options?.toolChoiceName ? { allowedFunctionNames: [options.toolChoiceName] } : {}),
+				},
+			},
+			generationConfig: {
+				temperature: this.config.temperature,
+				...(this.config.maxTokens ? { maxOutputTokens: this.config.maxTokens } : {}),
+			},
+		})
+		const headers = {
+			'Content-Type': 'application/json',
+			'x-goog-api-key': this.config.apiKey ?? '',
+		}
+
+		// 3. Call API via Proxy (Background Script) to avoid CORS/CSP issues
+		const data = await proxyFetch(url, headers, body)
+
+		// 4. Check finishReason
+		if (data.promptFeedback?.blockReason) {
+			throw new InvokeError(
+				InvokeErrorType.CONTENT_FILTER,
+				`Prompt blocked: ${data.promptFeedback.blockReason}`,
+				data
+			)
+		}
+		const candidate = data.candidates?.[0]
+		if (!candidate) {
+			throw new InvokeError(InvokeErrorType.UNKNOWN, 'No candidates in response', data)
+		}
+
+		switch (candidate.finishReason) {
+			case 'STOP':
+			case 'MALFORMED_FUNCTION_CALL': // will try to parse the text
+				// ✅ Normal
+				break
+			case 'MAX_TOKENS':
+				// ⚠️ Token limit reached
+				throw new InvokeError(
+					InvokeErrorType.CONTEXT_LENGTH,
+					'Response truncated: max tokens reached',
+					data
+				)
+			case 'SAFETY':
+			case 'RECITATION':
+			case 'BLOCKLIST':
+			case 'PROHIBITED_CONTENT':
+			case 'SPII':
+				// ❌ Content filtered
+				throw new InvokeError(
+					InvokeErrorType.CONTENT_FILTER,
+					'Content filtered by safety system',
+					data
+				)
+			default:
+				throw new InvokeError(
+					InvokeErrorType.UNKNOWN,
+					`Unexpected finishReason: ${candidate.finishReason}`,
+					data
+				)
+		}
+
+		// Apply normalizeResponse if provided, it works on the OpenAI format
+		const openaiData = toOpenAIResponse(candidate)
+		const normalizedData = options?.normalizeResponse ? options.normalizeResponse(openaiData) : openaiData
+
+		// 5. Parse tool call
+		const toolCall = normalizedData.choices?.[0]?.message?.tool_calls?.[0]
+		if (!toolCall) {
+			throw new InvokeError(InvokeErrorType.NO_TOOL_CALL, 'No tool call found in response', data)
+		}
+
+		let toolArgs: unknown
+		try {
+			toolArgs = JSON.parse(toolCall.function.arguments)
+		} catch (e) {
+			throw new InvokeError(InvokeErrorType.INVALID_TOOL_ARGS, 'Invalid JSON in tool arguments', e)
+		}
+
+		// 6. Validate and execute tool
+		const { toolName, args, toolResult } = await executeToolCall(tools, toolCall.function.name, toolArgs, data)
+
+		// 7. Return result (including cache tokens)
+		const usage = data.usageMetadata
+		return {
+			toolCall: {
+				name: toolName,
+				args,
+			},
+			toolResult,
+			usage: {
+				promptTokens: usage?.promptTokenCount ?? 0,
+				completionTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+				totalTokens: usage?.totalTokenCount ?? 0,
+				cachedTokens: usage?.cachedContentTokenCount,
+				reasoningTokens: usage?.thoughtsTokenCount,
+			},
+			rawResponse: data,
+		}
+	}
+}
+
+/**
+ * Convert OpenAI-style messages to Gemini contents and system instruction.
+ * Consecutive turns of the same role are merged, function responses are sent by the user.
+ */
+function convertMessages(messages: Message[]): {
+	systemInstruction: { parts: GeminiPart[] } | null
+	contents: GeminiContent[]
+} {
+	const systemParts: GeminiPart[] = []
+	const contents: GeminiContent[] = []
+	// Gemini matches function responses by name instead of id
+	const toolNames = new Map<string, string>()
+
+	const push = (role: GeminiContent['role'], parts: GeminiPart[]) => {
+		if (!parts.length) return
+		const last = contents[contents.length - 1]
+		if (last?.role === role) last.parts.push(...parts)
+		else contents.push({ role, parts })
+	}
+
+	for (const message of messages) {
+		switch (message.role) {
+			case 'system':
+				systemParts.push(...convertContent(message.content))
+				break
+			case 'user':
+				push('user', convertContent(message.content))
+				break
+			case 'assistant':
+				for (const toolCall of message.tool_calls ?? []) toolNames.set(toolCall.id, toolCall.function.name)
+				push('model', [
+					...convertContent(message.content),
+					...(message.tool_calls ?? []).map((toolCall) => ({
+						functionCall: { name: toolCall.function.name, args: parseToolArguments(toolCall.function.arguments) },
+					})),
+				])
+				break
+			case 'tool':
+				push('user', [
+					{
+						functionResponse: {
+							name: message.name ?? toolNames.get(message.tool_call_id ?? '') ?? 'unknown',
+							response: { content: typeof message.content === 'string' ? message.content : '' },
+						},
+					},
+				])
+				break
+		}
+	}
+
+	return { systemInstruction: systemParts.length ? { parts: systemParts } : null, contents }
+}
+
+function convertContent(content: Message['content']): GeminiPart[] {
+	if (!content) return []
+	if (typeof content === 'string') return [{ text: content }]
+	return content.map(convertContentPart)
+}
+
+function convertContentPart(part: ContentPart): GeminiPart {
+	if (part.type === 'text') return { text: part.text }
+
+	const image = parseDataUrl(part.image_url.url)
+	if (image) return { inlineData: image }
+	return { fileData: { fileUri: part.image_url.url } }
+}
+
+/**
+ * Gemini candidate in the OpenAI format, for `InvokeOptions.normalizeResponse`
+ */
+function toOpenAIResponse(candidate: any) {
+	const parts: GeminiPart[] = candidate.content?.parts ?? []
+	const functionCall = parts.find((part) => part.functionCall)?.functionCall
+	const text = parts
+		.filter((part) => typeof part.text === 'string' && !part.thought)
+		.map((part) => part.text)
+		.join('')
+	return {
+		choices: [
+			{
+				message: {
+					role: 'assistant',
+					content: text,
+					...(functionCall && {
+						tool_calls: [
+							{
+								type: 'function',
+								function: { name: functionCall.name, arguments: JSON.stringify(functionCall.args ?? {}) },
+							},
+						],
+					}),
+				},
+				finish_reason: functionCall ? 'tool_calls' : 'stop',
+			},
+		],
+	}
+}
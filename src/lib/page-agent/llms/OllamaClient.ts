@@ -0,0 +1,191 @@
+/**
+ * Ollama client, for models served locally or on an offline server
+ * @see https://github.com/ollama/ollama/blob/main/docs/api.md#generate-a-chat-completion
+ *
+ * Differences from the OpenAI format:
+ * - tools use the OpenAI format, but tool call arguments are objects instead of JSON strings
+ * - images are base64 strings in `images` next to the message content
+ * - there is no `tool_choice`, local models often answer with JSON text instead, fixed by `normalizeResponse`
+ */
+import { InvokeError, InvokeErrorType } from './errors'
+import type { InvokeOptions, InvokeResult, LLMClient, LLMConfig, Message, Tool } from './types'
+import { executeToolCall, parseDataUrl, parseToolArguments, proxyFetch, zodToOpenAITool } from './utils'
+
+interface OllamaMessage {
+	role: Message['role']
+	content: string
+	images?: string[]
+	tool_calls?: { function: { name: string; arguments: unknown } }[]
+	tool_name?: string
+}
+
+export class OllamaClient implements LLMClient {
+	config: LLMConfig
+
+	constructor(config: LLMConfig) {
+		this.config = config
+	}
+
+	async invoke(
+		messages: Message[],
+		tools: Record<string, Tool>,
+		abortSignal?: AbortSignal,
+		options?: InvokeOptions
+	): Promise<InvokeResult> {
+		// 1. Convert tools and messages to Ollama format (tools are the same as OpenAI)
+		const ollamaTools = Object.entries(tools).map(([name, tool]) => zodToOpenAITool(name, tool))
+		const ollamaMessages = convertMessages(messages)
+
+		// 2. Prepare request options
+		const url = `${this.config.baseURL}/api/chat`
+		const body = JSON.stringify({
+			model: this.config.model,
+			messages: ollamaMessages,
+			tools: ollamaTools,
+			stream: false,
+			options: {
+				temperature: this.config.temperature,
+				...(this.config.maxTokens ? { num_predict: this.config.maxTokens } : {}),
+			},
+		})
+		// Ollama has no authentication, a reverse proxy in front of it may have
+		const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+		if (this.config.apiKey) headers.Authorization = `Bearer ${this.config.apiKey}`
+
+		// 3. Call API via Proxy (Background Script) to avoid CORS/CSP issues
+		const data = await proxyFetch(url, headers, body)
+
+		// 4. Check done_reason
+		switch (data.done_reason) {
+			case 'stop':
+			case undefined: // older versions
+				// ✅ Normal
+				break
+			case 'length':
+				// ⚠️ Token limit reached
+				throw new InvokeError(
+					InvokeErrorType.CONTEXT_LENGTH,
+					'Response truncated: max tokens reached',
+					data
+				)
+			default:
+				throw new InvokeError(
+					InvokeErrorType.UNKNOWN,
+					`Unexpected done_reason: ${data.done_reason}`,
+					data
+				)
+		}
+
+		// Apply normalizeResponse if provided, it works on the OpenAI format
+		const openaiData = toOpenAIResponse(data)
+		const normalizedData = options?.normalizeResponse ? options.normalizeResponse(openaiData) : openaiData
+
+		// 5. Parse tool call
+		const toolCall = normalizedData.choices?.[0]?.message?.tool_calls?.[0]
+		if (!toolCall) {
+			throw new InvokeError(InvokeErrorType.NO_TOOL_CALL, 'No tool call found in response', data)
+		}
+
+		let toolArgs: unknown
+		try {
+			toolArgs = JSON.parse(toolCall.function.arguments)
+		} catch (e) {
+			throw new InvokeError(InvokeErrorType.INVALID_TOOL_ARGS, 'Invalid JSON in tool arguments', e)
+		}
+
+		// 6. Validate and execute tool
+		const { toolName, args, toolResult } = await executeToolCall(tools, toolCall.function.name, toolArgs, data)
+
+		// 7. Return result
+		const promptTokens = data.prompt_eval_count ?? 0
+		const completionTokens = data.eval_count ?? 0
+		return {
+			toolCall: {
+				name: toolName,
+				args,
+			},
+			toolResult,
+			usage: {
+				promptTokens,
+				completionTokens,
+				totalTokens: promptTokens + completionTokens,
+			},
+			rawResponse: data,
+		}
+	}
+}
+
+/**
+ * Convert OpenAI-style messages to Ollama messages
+ */
+function convertMessages(messages: Message[]): OllamaMessage[] {
+	const toolNames = new Map<string, string>()
+
+	return messages.map((message) => {
+		const converted: OllamaMessage = { role: message.role, content: '' }
+
+		if (typeof message.content === 'string') {
+			converted.content = message.content
+		} else if (message.content) {
+			const images: string[] = []
+			for (const part of message.content) {
+				if (part.type === 'text') {
+					converted.content += part.text
+				} else {
+					// only inline images are supported
+					const image = parseDataUrl(part.image_url.url)
+					if (image) images.push(image.data)
+				}
+			}
+			if (images.length) converted.images = images
+		}
+
+		if (message.tool_calls?.length) {
+			converted.tool_calls = message.tool_calls.map((toolCall) => {
+				toolNames.set(toolCall.id, toolCall.function.name)
+				return {
+					function: { name: toolCall.function.name, arguments: parseToolArguments(toolCall.function.arguments) },
+				}
+			})
+		}
+
+		if (message.role === 'tool') {
+			converted.tool_name = message.name ?? toolNames.get(message.tool_call_id ?? '')
+		}
+
+		return converted
+	})
+}
+
+/**
+ * Ollama response in the OpenAI format, for `InvokeOptions.normalizeResponse`
+ */
+function toOpenAIResponse(data: any) {
+	const message = data.message ?? {}
+	const toolCall = message.tool_calls?.[0]
+	return {
+		choices: [
+			{
+				message: {
+					role: 'assistant',
+					content: message.content ?? '',
+					...(toolCall && {
+						tool_calls: [
+							{
+								type: 'function',
+								function: {
+									name: toolCall.function.name,
+									arguments:
+										typeof toolCall.function.arguments === 'string'
+											? toolCall.function.arguments
+											: JSON.stringify(toolCall.function.arguments ?? {}),
+								},
+							},
+						],
+					}),
+				},
+				finish_reason: toolCall ? 'tool_calls' : 'stop',
+			},
+		],
+	}
+}
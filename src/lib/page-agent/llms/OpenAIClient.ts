@@ -5,7 +5,7 @@
  */
 import { InvokeError, InvokeErrorType } from './errors'
 import type { InvokeOptions, InvokeResult, LLMClient, LLMConfig, Message, Tool } from './types'
-import { modelPatch, zodToOpenAITool } from './utils'
+import { executeToolCall, modelPatch, proxyFetch, proxyFetchStream, zodToOpenAITool } from './utils'
 
 /**
  * @deprecated Use OpenAILenientClient instead.
@@ -45,6 +45,8 @@ export class OpenAIClient implements LLMClient {
 				// reasoning_effort: 'minimal',
 				// verbosity: 'low',
 				parallel_tool_calls: false,
+
+				...(this.config.stream && { stream: true, stream_options: { include_usage: true } }),
 			})
 		)
 		const headers = {
@@ -53,72 +55,9 @@ export class OpenAIClient implements LLMClient {
 		}
 
 		// 3. Call API via Proxy (Background Script) to avoid CORS/CSP issues
-		let proxyResponse: any
-		try {
-			const { MESSAGE_TYPES } = await import('../../messages')
-
-			proxyResponse = await chrome.runtime.sendMessage({
-				type: MESSAGE_TYPES.PROXY_FETCH,
-				payload: {
-					url,
-					options: {
-						method: 'POST',
-						headers,
-						body
-					}
-				}
-			})
-		} catch (error: unknown) {
-			const errorMessage = (error as Error)?.message || String(error)
-
-			// Handle implementation updates causing context invalidation
-			if (errorMessage.includes('Extension context invalidated')) {
-				throw new InvokeError(
-					InvokeErrorType.NETWORK_ERROR,
-					'Extension updated/reloaded. Please refresh the page to reconnect.',
-					error
-				)
-			}
-
-			// Network error or extension messaging error
-			throw new InvokeError(InvokeErrorType.NETWORK_ERROR, 'Network request failed (Proxy)', error)
-		}
-
-		// 4. Handle HTTP errors from Proxy Response
-		if (!proxyResponse || !proxyResponse.ok) {
-			const errorData = proxyResponse?.data
-			const errorMessage = proxyResponse?.error || errorData?.error?.message || proxyResponse?.statusText || 'Unknown error'
-			const status = proxyResponse?.status || 0
-
-			if (status === 401 || status === 403) {
-				throw new InvokeError(
-					InvokeErrorType.AUTH_ERROR,
-					`Authentication failed: ${errorMessage}`,
-					errorData
-				)
-			}
-			if (status === 429) {
-				throw new InvokeError(
-					InvokeErrorType.RATE_LIMIT,
-					`Rate limit exceeded: ${errorMessage}`,
-					errorData
-				)
-			}
-			if (status >= 500) {
-				throw new InvokeError(
-					InvokeErrorType.SERVER_ERROR,
-					`Server error: ${errorMessage}`,
-					errorData
-				)
-			}
-			throw new InvokeError(
-				InvokeErrorType.UNKNOWN,
-				`HTTP ${status}: ${errorMessage}`,
-				errorData
-			)
-		}
-
-		const data = proxyResponse.data
+		const data = this.config.stream
+			? await readChatCompletionStream(url, headers, body, abortSignal, options?.onToolCallDelta)
+			: await proxyFetch(url, headers, body)
 
 		// 4. Check finish_reason
 		const choice = data.choices?.[0]
@@ -165,58 +104,95 @@ export class OpenAIClient implements LLMClient {
 			throw new InvokeError(InvokeErrorType.NO_TOOL_CALL, 'No tool call found in response', data)
 		}
 
-		const toolName = toolCall.function.name
-		const tool = tools[toolName]
-		if (!tool) {
-			throw new InvokeError(InvokeErrorType.UNKNOWN, `Tool ${toolName} not found`, data)
-		}
-
-		// 6. Parse and validate arguments
+		// 6. Parse arguments, validate and execute tool
 		let toolArgs: unknown
 		try {
 			toolArgs = JSON.parse(toolCall.function.arguments)
 		} catch (e) {
 			throw new InvokeError(InvokeErrorType.INVALID_TOOL_ARGS, 'Invalid JSON in tool arguments', e)
 		}
+		const { toolName, args, toolResult } = await executeToolCall(tools, toolCall.function.name, toolArgs, data)
 
-		// Validate against zod schema
-		const validation = tool.inputSchema.safeParse(toolArgs)
-		if (!validation.success) {
-			throw new InvokeError(
-				InvokeErrorType.INVALID_TOOL_ARGS,
-				`Tool arguments validation failed: ${validation.error.message}`,
-				validation.error
-			)
-		}
-
-		// 7. Execute tool
-		let toolResult: unknown
-		try {
-			toolResult = await tool.execute(validation.data)
-		} catch (e) {
-			throw new InvokeError(
-				InvokeErrorType.TOOL_EXECUTION_ERROR,
-				`Tool execution failed: ${(e as Error).message}`,
-				e
-			)
-		}
-
-		// 8. Return result (including cache tokens)
+		// 7. Return result (including cache tokens)
 		return {
 			toolCall: {
 				// id: toolCall.id,
 				name: toolName,
-				args: validation.data as Record<string, unknown>,
+				args,
 			},
 			toolResult,
 			usage: {
 				promptTokens: data.usage?.prompt_tokens ?? 0,
 				completionTokens: data.usage?.completion_tokens ?? 0,
 				totalTokens: data.usage?.total_tokens ?? 0,
-				cachedTokens: data.usage?.prompt_tokens_details?.cached_tokens,
+				// DeepSeek reports cache hits separately
+				cachedTokens: data.usage?.prompt_tokens_details?.cached_tokens ?? data.usage?.prompt_cache_hit_tokens,
 				reasoningTokens: data.usage?.completion_tokens_details?.reasoning_tokens,
 			},
 			rawResponse: data,
 		}
 	}
 }
+
+/**
+ * Stream a chat completion and put the chunks back together into a regular response
+ */
+async function readChatCompletionStream(
+	url: string,
+	headers: Record<string, string>,
+	body: string,
+	abortSignal?: AbortSignal,
+	onToolCallDelta?: (argumentsSoFar: string) => void
+): Promise<any> {
+	let content = ''
+	let finishReason: string | null = null
+	let usage: unknown
+	const toolCalls: { id?: string; type: 'function'; function: { name: string; arguments: string } }[] = []
+
+	await proxyFetchStream(
+		url,
+		headers,
+		body,
+		(event) => {
+			const chunk = JSON.parse(event)
+			if (chunk.error) {
+				throw new InvokeError(InvokeErrorType.SERVER_ERROR, `Stream error: ${chunk.error.message}`, chunk)
+			}
+			if (chunk.usage) usage = chunk.usage
+
+			const choice = chunk.choices?.[0]
+			if (!choice) return
+			if (choice.finish_reason) finishReason = choice.finish_reason
+			if (choice.delta?.content) content += choice.delta.content
+
+			for (const delta of choice.delta?.tool_calls ?? []) {
+				// some providers send the whole call at once, without index
+				const toolCall = (toolCalls[delta.index ?? 0] ??= {
+					type: 'function',
+					function: { name: '', arguments: '' },
+				})
+				if (delta.id) toolCall.id = delta.id
+				if (delta.function?.name) toolCall.function.name += delta.function.name
+				if (delta.function?.arguments) {
+					toolCall.function.arguments += delta.function.arguments
+					if (toolCall === toolCalls[0]) onToolCallDelta?.(toolCall.function.arguments)
+				}
+			}
+		},
+		abortSignal
+	)
+
+	return {
+		choices: [
+			{
+				message: {
+					role: 'assistant',
+					content,
+					...(toolCalls.length && { tool_calls: toolCalls }),
+				},
+				finish_reason: finishReason,
+			},
+		],
+		usage,
+	}
+}
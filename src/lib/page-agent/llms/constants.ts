@@ -14,7 +14,19 @@ export const DEFAULT_BASE_URL: string =
 		? import.meta.env.LLM_BASE_URL
 		: 'https://hwcxiuzfylggtcktqgij.supabase.co/functions/v1/llm-testing-proxy'
 
+export const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1'
+export const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta'
+export const OLLAMA_BASE_URL = 'http://localhost:11434'
+export const ANTHROPIC_VERSION = '2023-06-01'
+/** Anthropic requires `max_tokens`, used when `LLMConfig.maxTokens` is not set */
+export const ANTHROPIC_MAX_TOKENS = 4096
+
 // internal
 
 export const LLM_MAX_RETRIES = 2
+/** exponential backoff: base * 2^(retry - 1), with jitter, capped */
+export const LLM_RETRY_BASE_DELAY = 500
+export const LLM_RETRY_MAX_DELAY = 10_000
+/** longer `Retry-After` waits are cut to this */
+export const LLM_RETRY_AFTER_MAX = 60_000
 export const DEFAULT_TEMPERATURE = 0.7 // higher randomness helps auto-recovery
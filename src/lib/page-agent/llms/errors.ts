@@ -15,6 +15,7 @@ export const InvokeErrorType = {
 
 	// Non-retryable
 	AUTH_ERROR: 'auth_error', // Authentication failed
+	MODEL_NOT_FOUND: 'model_not_found', // 404, wrong model name or base URL
 	CONTEXT_LENGTH: 'context_length', // Prompt too long
 	CONTENT_FILTER: 'content_filter', // Content filtered
 } as const
@@ -25,6 +26,8 @@ export class InvokeError extends Error {
 	type: InvokeErrorType
 	retryable: boolean
 	statusCode?: number
+	/** milliseconds to wait before retrying, from the `Retry-After` header */
+	retryAfter?: number
 	rawError?: unknown
 
 	constructor(type: InvokeErrorType, message: string, rawError?: unknown) {
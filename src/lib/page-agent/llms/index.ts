@@ -31,67 +31,176 @@
  * - 永远使用 tool call 来返回结构化数据，禁止模型直接返回（视为出错）
  * - 不能假设 tool 参数合法，必须有修复机制，而且修复也应该使用 tool call 返回
  */
-import { OpenAIClient } from './OpenAIClient'
 import {
 	DEFAULT_API_KEY,
-	DEFAULT_BASE_URL,
 	DEFAULT_MODEL_NAME,
 	DEFAULT_TEMPERATURE,
 	LLM_MAX_RETRIES,
+	LLM_RETRY_AFTER_MAX,
+	LLM_RETRY_BASE_DELAY,
+	LLM_RETRY_MAX_DELAY,
 } from './constants'
-import { InvokeError } from './errors'
+import { InvokeError, InvokeErrorType } from './errors'
+import { LLM_PROVIDERS } from './providers'
 import type {
 	AgentBrain,
+	ContentPart,
 	InvokeOptions,
 	InvokeResult,
 	LLMClient,
 	LLMConfig,
+	LLMProvider,
 	MacroToolInput,
 	MacroToolResult,
 	Message,
+	ModelRole,
 	Tool,
 } from './types'
 
 export type {
 	AgentBrain,
+	ContentPart,
 	InvokeOptions,
 	InvokeResult,
 	LLMClient,
 	LLMConfig,
+	LLMProvider,
 	MacroToolInput,
 	MacroToolResult,
 	Message,
+	ModelRole,
 	Tool,
 }
 
+export { LLM_PROVIDERS, type LLMProviderDefinition } from './providers'
+export { estimateTokens } from './tokens'
+
 export function parseLLMConfig(config: LLMConfig): Required<LLMConfig> {
+	const provider = config.provider ?? 'openai'
+	if (!LLM_PROVIDERS[provider]) throw new Error(`Unknown LLM provider: ${provider}`)
 	return {
-		baseURL: config.baseURL ?? DEFAULT_BASE_URL,
+		provider,
+		baseURL: config.baseURL ?? LLM_PROVIDERS[provider].baseURL,
 		apiKey: config.apiKey ?? DEFAULT_API_KEY,
 		model: config.model ?? DEFAULT_MODEL_NAME,
 		temperature: config.temperature ?? DEFAULT_TEMPERATURE,
 		maxRetries: config.maxRetries ?? LLM_MAX_RETRIES,
 		maxTokens: config.maxTokens,
+		maxContextTokens: config.maxContextTokens ?? 0,
+		stream: config.stream ?? false,
+		fallbacks: config.fallbacks ?? [],
+		executor: config.executor,
 		customFetch: (config.customFetch ?? fetch).bind(globalThis), // fetch will be illegal unless bound
 	}
 }
 
+/**
+ * Config of a fallback or executor model, unset fields come from the primary model
+ */
+function parseDerivedConfig(
+	derived: NonNullable<LLMConfig['executor']>,
+	primary: Required<LLMConfig>
+): Required<LLMConfig> {
+	const provider = derived.provider ?? primary.provider
+	const sameProvider = provider === primary.provider
+	return parseLLMConfig({
+		temperature: primary.temperature,
+		maxRetries: primary.maxRetries,
+		maxTokens: primary.maxTokens,
+		maxContextTokens: primary.maxContextTokens,
+		stream: primary.stream,
+		customFetch: primary.customFetch,
+		...(sameProvider && { baseURL: primary.baseURL, apiKey: primary.apiKey }),
+		...derived,
+		provider,
+	})
+}
+
+/**
+ * Errors after which the next model is tried, once retries are exhausted
+ */
+const FALLBACK_ERROR_TYPES: InvokeErrorType[] = [
+	InvokeErrorType.AUTH_ERROR,
+	InvokeErrorType.MODEL_NOT_FOUND,
+	InvokeErrorType.RATE_LIMIT,
+	InvokeErrorType.SERVER_ERROR,
+	InvokeErrorType.NO_TOOL_CALL,
+	InvokeErrorType.INVALID_TOOL_ARGS,
+]
+
+/**
+ * Errors after which the model is not worth retrying when there is a fallback
+ */
+const SKIP_RETRY_ERROR_TYPES: InvokeErrorType[] = [
+	InvokeErrorType.AUTH_ERROR,
+	InvokeErrorType.MODEL_NOT_FOUND,
+	InvokeErrorType.RATE_LIMIT,
+]
+
+/**
+ * Errors that will not go away by themselves, the model is skipped for the rest of the session
+ */
+const BROKEN_ERROR_TYPES: InvokeErrorType[] = [InvokeErrorType.AUTH_ERROR, InvokeErrorType.MODEL_NOT_FOUND]
+
+function isInvokeErrorOf(error: unknown, types: InvokeErrorType[]): error is InvokeError {
+	return error instanceof InvokeError && types.includes(error.type)
+}
+
+/**
+ * Events:
+ * - `retry`: `{ current, max }` before retrying the same model
+ * - `error`: `{ error }` on every failed call
+ * - `modelchange`: `{ provider, model, reason }` when a model falls over to the next one,
+ *   `reason` is the error of the previous model. Routing between the planner and the executor is not reported,
+ *   see `InvokeResult.model` for the model that answered.
+ */
 export class LLM extends EventTarget {
 	config: Required<LLMConfig>
 	client: LLMClient
 
+	/** the primary model, its fallbacks, then the executor */
+	#models: { config: Required<LLMConfig>; client: LLMClient }[]
+	/** indexes in `#models` to try in order, for each role */
+	#chains: Record<ModelRole, number[]>
+	/** indexes of models that failed for good, see `BROKEN_ERROR_TYPES` */
+	#broken = new Set<number>()
+
 	constructor(config: LLMConfig) {
 		super()
 		this.config = parseLLMConfig(config)
 
-		// Default to OpenAI client
-		this.client = new OpenAIClient(this.config)
+		this.client = LLM_PROVIDERS[this.config.provider].createClient(this.config)
+
+		const derived = [...this.config.fallbacks, ...(this.config.executor ? [this.config.executor] : [])]
+		this.#models = [
+			{ config: this.config, client: this.client },
+			...derived.map((partial) => {
+				const config = parseDerivedConfig(partial, this.config)
+				return { config, client: LLM_PROVIDERS[config.provider].createClient(config) }
+			}),
+		]
+
+		const planner = Array.from({ length: 1 + this.config.fallbacks.length }, (_, i) => i)
+		this.#chains = {
+			planner,
+			// the executor falls over to the planner models
+			executor: this.config.executor ? [this.#models.length - 1, ...planner] : planner,
+		}
+	}
+
+	/**
+	 * Whether an executor model is configured, otherwise the planner answers every call
+	 */
+	get hasExecutor(): boolean {
+		return !!this.config.executor
 	}
 
 	/**
 	 * - call llm api *once*
 	 * - invoke tool call *once*
 	 * - return the result of the tool
+	 *
+	 * Each call starts from the first model of the role, falling over to the next ones in order.
 	 */
 	async invoke(
 		messages: Message[],
@@ -99,25 +208,47 @@ export class LLM extends EventTarget {
 		abortSignal: AbortSignal,
 		options?: InvokeOptions
 	): Promise<InvokeResult> {
-		return await withRetry(
-			async () => {
-				const result = await this.client.invoke(messages, tools, abortSignal, options)
-
-				return result
-			},
-			// retry settings
-			{
-				maxRetries: this.config.maxRetries,
-				onRetry: (current: number) => {
-					this.dispatchEvent(
-						new CustomEvent('retry', { detail: { current, max: this.config.maxRetries } })
-					)
-				},
-				onError: (error: Error) => {
-					this.dispatchEvent(new CustomEvent('error', { detail: { error } }))
-				},
+		let reason: string | undefined
+		const chain = this.#chains[options?.model ?? 'planner']
+
+		for (let position = 0; position < chain.length; position++) {
+			const i = chain[position]
+			if (this.#broken.has(i)) continue
+			const { config, client } = this.#models[i]
+			const hasFallback = chain.slice(position + 1).some((j) => !this.#broken.has(j))
+
+			if (reason !== undefined) {
+				this.dispatchEvent(
+					new CustomEvent('modelchange', {
+						detail: { provider: config.provider, model: config.model, reason },
+					})
+				)
+			}
+
+			try {
+				const result = await withRetry(() => client.invoke(messages, tools, abortSignal, options), {
+					maxRetries: config.maxRetries,
+					abortSignal,
+					shouldRetry: (error) => !(hasFallback && isInvokeErrorOf(error, SKIP_RETRY_ERROR_TYPES)),
+					onRetry: (current: number) => {
+						this.dispatchEvent(new CustomEvent('retry', { detail: { current, max: config.maxRetries } }))
+					},
+					onError: (error: Error) => {
+						this.dispatchEvent(new CustomEvent('error', { detail: { error } }))
+					},
+				})
+				return { ...result, model: { provider: config.provider, model: config.model } }
+			} catch (error: unknown) {
+				if (!hasFallback || !isInvokeErrorOf(error, FALLBACK_ERROR_TYPES)) throw error
+
+				console.warn(`[LLM] ${config.model} failed, falling over to the next model`, error)
+				if (isInvokeErrorOf(error, BROKEN_ERROR_TYPES)) this.#broken.add(i)
+				reason = error.message
 			}
-		)
+		}
+
+		// not reached, the last usable model is never marked as broken
+		throw new InvokeError(InvokeErrorType.MODEL_NOT_FOUND, reason ?? 'No usable model')
 	}
 }
 
@@ -125,18 +256,15 @@ async function withRetry<T>(
 	fn: () => Promise<T>,
 	settings: {
 		maxRetries: number
+		abortSignal?: AbortSignal
+		/** return false to give up before `maxRetries` */
+		shouldRetry: (error: unknown) => boolean
 		onRetry: (retries: number) => void
 		onError: (error: Error) => void
 	}
 ): Promise<T> {
 	let retries = 0
-	let lastError: Error | null = null
-	while (retries <= settings.maxRetries) {
-		if (retries > 0) {
-			settings.onRetry(retries)
-			await new Promise((resolve) => setTimeout(resolve, 100))
-		}
-
+	while (true) {
 		try {
 			return await fn()
 		} catch (error: unknown) {
@@ -149,12 +277,40 @@ async function withRetry<T>(
 			// do not retry if error is not retryable (InvokeError)
 			if (error instanceof InvokeError && !error.retryable) throw error
 
-			lastError = error as Error
-			retries++
+			if (retries >= settings.maxRetries || !settings.shouldRetry(error)) throw error
 
-			await new Promise((resolve) => setTimeout(resolve, 100))
+			retries++
+			settings.onRetry(retries)
+			await sleep(getRetryDelay(retries, error), settings.abortSignal)
 		}
 	}
+}
 
-	throw lastError!
+/**
+ * `Retry-After` when the server sent one, otherwise exponential backoff with jitter,
+ * so agents hitting the same limit do not retry in lockstep
+ */
+function getRetryDelay(retries: number, error: unknown): number {
+	if (error instanceof InvokeError && error.retryAfter !== undefined) {
+		return Math.min(error.retryAfter, LLM_RETRY_AFTER_MAX)
+	}
+	const delay = Math.min(LLM_RETRY_BASE_DELAY * 2 ** (retries - 1), LLM_RETRY_MAX_DELAY)
+	return delay / 2 + (Math.random() * delay) / 2
+}
+
+function sleep(ms: number, abortSignal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const onAbort = () => {
+			clearTimeout(timer)
+			const error = new Error('Aborted')
+			error.name = 'AbortError'
+			reject(error)
+		}
+		const timer = setTimeout(() => {
+			abortSignal?.removeEventListener('abort', onAbort)
+			resolve()
+		}, ms)
+		if (abortSignal?.aborted) onAbort()
+		else abortSignal?.addEventListener('abort', onAbort, { once: true })
+	})
 }
@@ -0,0 +1,35 @@
+/**
+ * LLM providers: the API formats `LLM` can speak, keyed by `LLMConfig.provider`.
+ * A provider creates the `LLMClient` of a config and knows the default endpoint of its API.
+ */
+import { AnthropicClient } from './AnthropicClient'
+import { GeminiClient } from './GeminiClient'
+import { OllamaClient } from './OllamaClient'
+import { OpenAIClient } from './OpenAIClient'
+import { ANTHROPIC_BASE_URL, DEFAULT_BASE_URL, GEMINI_BASE_URL, OLLAMA_BASE_URL } from './constants'
+import type { LLMClient, LLMConfig, LLMProvider } from './types'
+
+export interface LLMProviderDefinition {
+	/** used when `LLMConfig.baseURL` is not set */
+	baseURL: string
+	createClient: (config: Required<LLMConfig>) => LLMClient
+}
+
+export const LLM_PROVIDERS: Record<LLMProvider, LLMProviderDefinition> = {
+	openai: {
+		baseURL: DEFAULT_BASE_URL,
+		createClient: (config) => new OpenAIClient(config),
+	},
+	anthropic: {
+		baseURL: ANTHROPIC_BASE_URL,
+		createClient: (config) => new AnthropicClient(config),
+	},
+	gemini: {
+		baseURL: GEMINI_BASE_URL,
+		createClient: (config) => new GeminiClient(config),
+	},
+	ollama: {
+		baseURL: OLLAMA_BASE_URL,
+		createClient: (config) => new OllamaClient(config),
+	},
+}
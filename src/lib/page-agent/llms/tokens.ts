@@ -0,0 +1,23 @@
+/**
+ * Token estimation without a tokenizer, good enough to keep prompts inside the context window.
+ * Latin text averages ~4 characters per token, CJK characters are ~1 token each.
+ */
+import type { Message } from './types'
+
+/** rough cost of an image, the real one depends on its size and the provider */
+const IMAGE_TOKENS = 1000
+
+/** CJK ideographs and punctuation, kana, hangul and fullwidth forms */
+const CJK_REGEX = /[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g
+
+export function estimateTokens(content: Message['content']): number {
+	if (!content) return 0
+	if (typeof content !== 'string') {
+		return content.reduce(
+			(sum, part) => sum + (part.type === 'text' ? estimateTokens(part.text) : IMAGE_TOKENS),
+			0
+		)
+	}
+	const cjk = content.match(CJK_REGEX)?.length ?? 0
+	return Math.ceil(cjk + (content.length - cjk) / 4)
+}
@@ -3,12 +3,20 @@
  */
 import type { z } from 'zod'
 
+/**
+ * Part of a multimodal message content - OpenAI standard
+ * @note Images are only understood by vision models, others reject the request.
+ */
+export type ContentPart =
+	| { type: 'text'; text: string }
+	| { type: 'image_url'; image_url: { url: string; detail?: 'auto' | 'low' | 'high' } }
+
 /**
  * Message format - OpenAI standard (industry standard)
  */
 export interface Message {
 	role: 'system' | 'user' | 'assistant' | 'tool'
-	content?: string | null
+	content?: string | ContentPart[] | null
 	tool_calls?: {
 		id: string
 		type: 'function'
@@ -48,8 +56,24 @@ export interface InvokeOptions {
 	 * Used to fix various response format errors from the model.
 	 */
 	normalizeResponse?: (response: any) => any
+	/**
+	 * Called with the tool call arguments received so far, a growing and incomplete JSON string.
+	 * Only called when streaming, see `LLMConfig.stream`.
+	 */
+	onToolCallDelta?: (argumentsSoFar: string) => void
+	/**
+	 * Which model answers, see `LLMConfig.executor`.
+	 * @default 'planner'
+	 */
+	model?: ModelRole
 }
 
+/**
+ * - planner: the main model, strong and expensive
+ * - executor: `LLMConfig.executor`, cheaper, for routine steps. The planner answers when it is not set.
+ */
+export type ModelRole = 'planner' | 'executor'
+
 /**
  * LLM Client interface
  * Note: Does not use generics because each tool in the tools array has different types
@@ -81,12 +105,27 @@ export interface InvokeResult<TResult = unknown> {
 		reasoningTokens?: number // OpenAI o1 series reasoning tokens
 	}
 	rawResponse?: unknown // Raw response for debugging
+	/** model that answered, set by `LLM.invoke` */
+	model?: { provider: LLMProvider; model: string }
 }
 
+/**
+ * API format spoken by the LLM service, see `LLM_PROVIDERS`
+ * - openai: OpenAI Chat Completions, also served by most other vendors and gateways
+ * - anthropic: Anthropic Messages API
+ * - gemini: Gemini API `generateContent` (Google AI Studio)
+ * - ollama: Ollama `/api/chat`
+ */
+export type LLMProvider = 'openai' | 'anthropic' | 'gemini' | 'ollama'
+
 /**
  * LLM configuration
  */
 export interface LLMConfig {
+	/**
+	 * @default 'openai'
+	 */
+	provider?: LLMProvider
 	baseURL?: string
 	apiKey?: string
 	model?: string
@@ -95,6 +134,35 @@ export interface LLMConfig {
 	maxRetries?: number
 	maxTokens?: number
 
+	/**
+	 * Context window of the model in tokens. Prompts of the agent are compacted to fit:
+	 * long action results are truncated, old steps are summarized by a side call,
+	 * and the elements of big pages are cut into parts around the viewport.
+	 * 0 or undefined for no limit.
+	 * @note Tokens are estimated, leave some margin.
+	 */
+	maxContextTokens?: number
+
+	/**
+	 * Stream responses with server-sent events, so tool call arguments can be shown as they arrive.
+	 * @note Supported by the `openai` and `anthropic` providers, the others wait for the full response.
+	 * @default false
+	 */
+	stream?: boolean
+
+	/**
+	 * Models to fall over to, in order, when this one keeps failing:
+	 * on auth, model-not-found and rate limit errors, or once retries of an invalid response are exhausted.
+	 * Unset fields are inherited from this config; `baseURL` and `apiKey` only when the provider is the same.
+	 */
+	fallbacks?: Omit<LLMConfig, 'fallbacks' | 'executor' | 'customFetch'>[]
+
+	/**
+	 * Cheaper model for routine steps, called with `InvokeOptions.model: 'executor'`.
+	 * Fields are inherited like `fallbacks`, the planner models are its fallbacks.
+	 */
+	executor?: Omit<LLMConfig, 'fallbacks' | 'executor' | 'customFetch'>
+
 	/**
 	 * Custom fetch function for LLM API requests.
 	 * Use this to customize headers, credentials, proxy, etc.
@@ -21,6 +21,265 @@ export function zodToOpenAITool(name: string, tool: Tool) {
 	}
 }
 
+/**
+ * Convert Zod schema to Anthropic tool format
+ */
+export function zodToAnthropicTool(name: string, tool: Tool) {
+	const { $schema, ...inputSchema } = zodToJsonSchema(tool.inputSchema, { target: 'jsonSchema7' }) as Record<
+		string,
+		unknown
+	>
+	return {
+		name,
+		description: tool.description,
+		input_schema: inputSchema,
+	}
+}
+
+/** keywords Gemini rejects in function parameters */
+const GEMINI_UNSUPPORTED_SCHEMA_KEYS = new Set(['$schema', 'additionalProperties', 'default'])
+
+function stripSchemaKeys(schema: unknown, keys: Set<string>): unknown {
+	if (Array.isArray(schema)) return schema.map((item) => stripSchemaKeys(item, keys))
+	if (!schema || typeof schema !== 'object') return schema
+	return Object.fromEntries(
+		Object.entries(schema)
+			.filter(([key]) => !keys.has(key))
+			.map(([key, value]) => [key, stripSchemaKeys(value, keys)])
+	)
+}
+
+/**
+ * Convert Zod schema to Gemini function declaration.
+ * Gemini takes a subset of OpenAPI 3.0 without references.
+ */
+export function zodToGeminiTool(name: string, tool: Tool) {
+	const parameters = zodToJsonSchema(tool.inputSchema, { target: 'openApi3', $refStrategy: 'none' })
+	return {
+		name,
+		description: tool.description,
+		parameters: stripSchemaKeys(parameters, GEMINI_UNSUPPORTED_SCHEMA_KEYS),
+	}
+}
+
+/**
+ * Arguments of a tool call in the history, `{}` if they are not valid JSON
+ */
+export function parseToolArguments(args: string): unknown {
+	try {
+		return JSON.parse(args)
+	} catch {
+		return {}
+	}
+}
+
+/**
+ * Split a base64 data URL, e.g. a screenshot, null for other URLs
+ */
+export function parseDataUrl(url: string): { mimeType: string; data: string } | null {
+	const match = /^data:([^;,]+);base64,(.*)$/.exec(url)
+	return match ? { mimeType: match[1], data: match[2] } : null
+}
+
+/**
+ * Error of a failed proxied request
+ */
+function toHttpError(proxyResponse: any): InvokeError {
+	const errorData = proxyResponse?.data
+	// OpenAI, Anthropic and Gemini nest the message, Ollama returns a string
+	const errorMessage =
+		proxyResponse?.error ||
+		(typeof errorData?.error === 'string' ? errorData.error : errorData?.error?.message) ||
+		proxyResponse?.statusText ||
+		'Unknown error'
+	const status = proxyResponse?.status || 0
+
+	let error: InvokeError
+	if (status === 401 || status === 403) {
+		error = new InvokeError(InvokeErrorType.AUTH_ERROR, `Authentication failed: ${errorMessage}`, errorData)
+	} else if (status === 404) {
+		error = new InvokeError(InvokeErrorType.MODEL_NOT_FOUND, `Model not found: ${errorMessage}`, errorData)
+	} else if (status === 429) {
+		error = new InvokeError(InvokeErrorType.RATE_LIMIT, `Rate limit exceeded: ${errorMessage}`, errorData)
+	} else if (status >= 500) {
+		error = new InvokeError(InvokeErrorType.SERVER_ERROR, `Server error: ${errorMessage}`, errorData)
+	} else {
+		error = new InvokeError(InvokeErrorType.UNKNOWN, `HTTP ${status}: ${errorMessage}`, errorData)
+	}
+
+	if (status) error.statusCode = status
+	const retryAfter = parseRetryAfter(proxyResponse?.retryAfter)
+	if (retryAfter !== undefined) error.retryAfter = retryAfter
+	return error
+}
+
+/**
+ * `Retry-After` header in milliseconds, it is either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+	if (!value) return undefined
+	const seconds = Number(value)
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+	const date = Date.parse(value)
+	if (Number.isNaN(date)) return undefined
+	return Math.max(0, date - Date.now())
+}
+
+/**
+ * Call an LLM API through the background proxy, to avoid CORS/CSP issues of the page.
+ * Returns the parsed JSON body, HTTP errors are thrown as `InvokeError`.
+ */
+export async function proxyFetch(url: string, headers: Record<string, string>, body: string): Promise<any> {
+	let proxyResponse: any
+	try {
+		const { MESSAGE_TYPES } = await import('../../messages')
+
+		proxyResponse = await chrome.runtime.sendMessage({
+			type: MESSAGE_TYPES.PROXY_FETCH,
+			payload: {
+				url,
+				options: {
+					method: 'POST',
+					headers,
+					body,
+				},
+			},
+		})
+	} catch (error: unknown) {
+		const errorMessage = (error as Error)?.message || String(error)
+
+		// Handle implementation updates causing context invalidation
+		if (errorMessage.includes('Extension context invalidated')) {
+			throw new InvokeError(
+				InvokeErrorType.NETWORK_ERROR,
+				'Extension updated/reloaded. Please refresh the page to reconnect.',
+				error
+			)
+		}
+
+		// Network error or extension messaging error
+		throw new InvokeError(InvokeErrorType.NETWORK_ERROR, 'Network request failed (Proxy)', error)
+	}
+
+	// Handle HTTP errors from Proxy Response
+	if (!proxyResponse || !proxyResponse.ok) throw toHttpError(proxyResponse)
+
+	return proxyResponse.data
+}
+
+/**
+ * Call an LLM API with server-sent events through the background proxy, see `PROXY_STREAM_PORT`.
+ * `onEvent` receives the `data` of each event, resolves once the stream ends.
+ */
+export async function proxyFetchStream(
+	url: string,
+	headers: Record<string, string>,
+	body: string,
+	onEvent: (data: string) => void,
+	abortSignal?: AbortSignal
+): Promise<void> {
+	const { PROXY_STREAM_PORT } = await import('../../messages')
+
+	let port: any
+	try {
+		port = chrome.runtime.connect({ name: PROXY_STREAM_PORT })
+	} catch (error: unknown) {
+		throw new InvokeError(
+			InvokeErrorType.NETWORK_ERROR,
+			'Extension updated/reloaded. Please refresh the page to reconnect.',
+			error
+		)
+	}
+
+	await new Promise<void>((resolve, reject) => {
+		let buffer = ''
+		let settled = false
+		const settle = (error?: unknown) => {
+			if (settled) return
+			settled = true
+			abortSignal?.removeEventListener('abort', onAbort)
+			port.disconnect()
+			if (error) reject(error)
+			else resolve()
+		}
+		const onAbort = () => {
+			const error = new Error('Aborted')
+			error.name = 'AbortError'
+			settle(error)
+		}
+
+		// events are separated by blank lines, only `data:` lines matter
+		const flush = (final = false) => {
+			const lines = buffer.split(/\r?\n/)
+			buffer = final ? '' : (lines.pop() ?? '')
+			for (const line of lines) {
+				if (!line.startsWith('data:')) continue
+				const data = line.slice(5).trim()
+				if (data && data !== '[DONE]') onEvent(data)
+			}
+		}
+
+		port.onMessage.addListener((message: any) => {
+			try {
+				if (message.type === 'chunk') {
+					buffer += message.text
+					flush()
+				} else if (message.type === 'done') {
+					flush(true)
+					settle()
+				} else if (message.type === 'error') {
+					settle(toHttpError(message))
+				}
+			} catch (error) {
+				settle(error)
+			}
+		})
+		port.onDisconnect.addListener(() => {
+			settle(new InvokeError(InvokeErrorType.NETWORK_ERROR, 'Stream interrupted (Proxy)'))
+		})
+		abortSignal?.addEventListener('abort', onAbort)
+
+		port.postMessage({ url, options: { method: 'POST', headers, body } })
+	})
+}
+
+/**
+ * Validate the arguments of a tool call against the tool schema, then execute the tool
+ */
+export async function executeToolCall(
+	tools: Record<string, Tool>,
+	toolName: string,
+	toolArgs: unknown,
+	rawResponse: unknown
+): Promise<{ toolName: string; args: any; toolResult: unknown }> {
+	const tool = tools[toolName]
+	if (!tool) {
+		throw new InvokeError(InvokeErrorType.UNKNOWN, `Tool ${toolName} not found`, rawResponse)
+	}
+
+	const validation = tool.inputSchema.safeParse(toolArgs)
+	if (!validation.success) {
+		throw new InvokeError(
+			InvokeErrorType.INVALID_TOOL_ARGS,
+			`Tool arguments validation failed: ${validation.error.message}`,
+			validation.error
+		)
+	}
+
+	let toolResult: unknown
+	try {
+		toolResult = await tool.execute(validation.data)
+	} catch (e) {
+		throw new InvokeError(
+			InvokeErrorType.TOOL_EXECUTION_ERROR,
+			`Tool execution failed: ${(e as Error).message}`,
+			e
+		)
+	}
+
+	return { toolName, args: validation.data, toolResult }
+}
+
 /**
  * Although some models cannot guarantee correct response. Common issues are fixable:
  * - Instead of returning a proper tool call. Return the tool call parameters in the message content.
@@ -201,7 +460,7 @@ export function modelPatch(body: Record<string, any>) {
 		body.temperature = Math.max(body.temperature || 0, 1.0)
 	}
 
-	// 2. Anthropic models
+	// 2. Anthropic models behind OpenAI-compatible gateways (the native API uses `AnthropicClient`)
 	if (modelName.startsWith('claude')) {
 		console.log('Applying Claude patch: disable thinking')
 		body.thinking = { type: 'disabled' }
@@ -0,0 +1,65 @@
+/**
+ * Macros: successful runs saved for replay without the LLM.
+ * (Not to be confused with the MacroTool, which packs all tools into one LLM tool call.)
+ *
+ * A macro is the list of tool calls of a run. Element indexes are replaced by locators,
+ * since indexes change with every DOM update. See `AgentConfig.macro` for how macros are replayed.
+ */
+import type { ElementLocator } from '../page-controller/locator'
+import type { AgentHistory } from './PageAgent'
+
+export interface MacroStep {
+	/** tool name */
+	name: string
+	/** tool input, without `index` when the step has a locator */
+	input: Record<string, any>
+	/** element the step acts on, resolved to an index at replay time */
+	locator?: ElementLocator
+}
+
+export interface Macro {
+	id: string
+	name: string
+	/** task of the recorded run, the LLM continues it if the replay fails */
+	task: string
+	/** page the recorded run started on */
+	startUrl?: string
+	steps: MacroStep[]
+	createdAt: number
+}
+
+/**
+ * Tools whose calls give the same result when replayed.
+ * Tab ids, user answers and dropdown listings are not reproducible, `extract_structured_data` still calls the LLM.
+ * `done` is left out: its result is written by the LLM after the replay, from the page of the day.
+ */
+const REPLAYABLE_TOOLS = new Set([
+	'wait',
+	'click_element_by_index',
+	'input_text',
+	'select_dropdown_option',
+	'set_widget_value',
+	'scroll',
+	'scroll_horizontally',
+	'extract_structured_data',
+	'upload_file',
+	'execute_javascript',
+	'press_keys',
+	'go_back',
+	'go_forward',
+	'navigate_to_url',
+	'reload',
+])
+
+/**
+ * Steps of a macro from a run history. Failed actions are left out.
+ */
+export function macroStepsFromHistory(history: AgentHistory[]): MacroStep[] {
+	return history
+		.filter(({ action }) => REPLAYABLE_TOOLS.has(action.name) && !action.output?.startsWith('❌'))
+		.map(({ action }) => {
+			if (!action.locator) return { name: action.name, input: action.input ?? {} }
+			const { index, ...input } = action.input ?? {}
+			return { name: action.name, input, locator: action.locator }
+		})
+}
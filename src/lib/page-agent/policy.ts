@@ -0,0 +1,150 @@
+/**
+ * Site policies: where the agent may act, and what it must never do there.
+ *
+ * The first policy whose pattern matches the page URL applies, pages without one are allowed.
+ * Policies are checked before each action runs, see `PageAgent.#packMacroTool`.
+ */
+
+/**
+ * - allow: any action, minus the forbidden ones
+ * - readonly: only `READONLY_TOOLS`
+ * - block: no task runs on the site
+ */
+export type SiteAccess = 'allow' | 'readonly' | 'block'
+
+export interface SitePolicy {
+	/**
+	 * `*` matches anything. With a scheme it is matched against the whole URL, e.g. `https://erp.example.com/admin/*`,
+	 * otherwise against the host name, e.g. `*.bank.com`.
+	 */
+	pattern: string
+	access: SiteAccess
+	/** tools that never run on the site, e.g. `execute_javascript` */
+	forbiddenActions?: string[]
+	/**
+	 * Elements never acted on: CSS selectors, or `text:` followed by a word of their name, e.g. `text:删除`.
+	 * Elements inside an element matching a selector are forbidden too.
+	 *
+	 * The name is the accessible name of the element: its `aria-label`, `title`, labels or `alt`, the value of
+	 * input buttons, and the text of buttons, links and the like. Other elements are named by their own text only,
+	 * not the text of their children, so a rule never matches a container of the named element.
+	 * Words match whole and case-insensitively: `text:pay` matches "Pay now", not "Display settings".
+	 * Chinese and Japanese have no word breaks, `text:删除` matches "删除订单".
+	 */
+	forbiddenElements?: string[]
+}
+
+/** tools of read-only sites */
+export const READONLY_TOOLS = ['scroll', 'scroll_horizontally', 'extract_structured_data', 'done']
+
+/** tools that open a URL, blocked when the URL is on a blocked site */
+export const URL_TOOLS = ['navigate_to_url', 'open_tab']
+
+function globToRegExp(glob: string): RegExp {
+	const source = glob
+		.split('*')
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+		.join('.*')
+	return new RegExp(`^${source}$`, 'i')
+}
+
+export function matchesPattern(pattern: string, url: string): boolean {
+	try {
+		const target = pattern.includes('://') ? url : new URL(url).hostname
+		return globToRegExp(pattern.trim()).test(target)
+	} catch {
+		return false
+	}
+}
+
+export function findSitePolicy(policies: SitePolicy[], url: string): SitePolicy | null {
+	return policies.find((policy) => matchesPattern(policy.pattern, url)) ?? null
+}
+
+/** elements named by their whole text */
+const NAMED_BY_TEXT =
+	'button, a, summary, option, label, [role="button"], [role="link"], [role="menuitem"], [role="tab"], [role="option"]'
+
+/** letters that are not written with spaces between words */
+const UNSPACED_LETTER = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u
+
+function getElementNames(element: HTMLElement): string[] {
+	const ownText = element.matches(NAMED_BY_TEXT)
+		? element.textContent
+		: Array.from(element.childNodes, (node) => (node.nodeType === Node.TEXT_NODE ? node.textContent : ' ')).join('')
+	const labelledBy = element
+		.getAttribute('aria-labelledby')
+		?.split(/\s+/)
+		.map((id) => element.ownerDocument.getElementById(id)?.textContent)
+	const labels = (element as HTMLInputElement).labels
+
+	return [
+		ownText,
+		element.getAttribute('aria-label'),
+		element.getAttribute('title'),
+		element.getAttribute('alt'),
+		element instanceof HTMLInputElement && ['submit', 'button', 'reset'].includes(element.type) ? element.value : null,
+		...(labelledBy ?? []),
+		...(labels ? Array.from(labels, (label) => label.textContent) : []),
+	].filter((name): name is string => !!name?.trim())
+}
+
+function wordToRegExp(word: string): RegExp {
+	const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+	// no boundary next to Chinese or Japanese letters
+	const before = UNSPACED_LETTER.test(word[0]) ? '' : '(?<![\\p{L}\\p{N}])'
+	const after = UNSPACED_LETTER.test(word[word.length - 1]) ? '' : '(?![\\p{L}\\p{N}])'
+	return new RegExp(`${before}${escaped.replace(/\s+/g, '\\s+')}${after}`, 'iu')
+}
+
+function matchesElementRule(element: HTMLElement, rule: string): boolean {
+	if (rule.startsWith('text:')) {
+		const word = rule.slice('text:'.length).trim()
+		if (!word) return false
+		const regExp = wordToRegExp(word)
+		return getElementNames(element).some((name) => regExp.test(name))
+	}
+
+	try {
+		return element.closest(rule) !== null
+	} catch {
+		// invalid selector
+		return false
+	}
+}
+
+/**
+ * Why the policy forbids the action, null if allowed. Messages are for the LLM.
+ * @param element element the action acts on, if any
+ */
+export function checkSitePolicy(policy: SitePolicy, toolName: string, element: HTMLElement | null): string | null {
+	if (policy.access === 'block' && toolName !== 'done') {
+		return `❌ Blocked by site policy: the agent is not allowed on this site (${policy.pattern}). Call done to end the task.`
+	}
+	if (policy.access === 'readonly' && !READONLY_TOOLS.includes(toolName)) {
+		return `❌ Blocked by site policy: this site is read-only (${policy.pattern}), only ${READONLY_TOOLS.join(', ')} are allowed.`
+	}
+	if (policy.forbiddenActions?.includes(toolName)) {
+		return `❌ Blocked by site policy: ${toolName} is forbidden on this site.`
+	}
+
+	const rule = element && policy.forbiddenElements?.find((r) => matchesElementRule(element, r))
+	if (rule) {
+		return `❌ Blocked by site policy: this element is forbidden by the rule "${rule}". Do not look for another way to do the same thing.`
+	}
+
+	return null
+}
+
+/**
+ * Policy of the current page for the browser state, empty when it does not restrict anything
+ */
+export function describeSitePolicy(policy: SitePolicy | null): string {
+	if (!policy) return ''
+
+	const rules: string[] = []
+	if (policy.access === 'readonly') rules.push(`read-only, only ${READONLY_TOOLS.join(', ')} are allowed`)
+	if (policy.forbiddenActions?.length) rules.push(`forbidden actions: ${policy.forbiddenActions.join(', ')}`)
+	if (policy.forbiddenElements?.length) rules.push(`forbidden elements: ${policy.forbiddenElements.join(', ')}`)
+	return rules.length ? `Site policy: ${rules.join('; ')}\n` : ''
+}
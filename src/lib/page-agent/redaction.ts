@@ -0,0 +1,135 @@
+/**
+ * Redaction of personal data in page content before it is sent to the LLM.
+ *
+ * Detected values are replaced by placeholders such as `{{pii:phone_3f2a1c}}`. A placeholder is derived from
+ * a hash of its value, so the same value gets the same placeholder on every page and in every step.
+ * The table of placeholders is kept, `input_text` types the original value when the agent uses one.
+ */
+import { hash } from '../page-controller/dom/fingerprint'
+
+/**
+ * - phone: mainland mobile numbers, and international numbers written with a country code
+ * - email
+ * - idCard: mainland resident ID numbers
+ * - bankCard: 13 to 19 digits, optionally grouped, that pass the Luhn check
+ */
+export type RedactionDetector = 'phone' | 'email' | 'idCard' | 'bankCard'
+
+export interface RedactionConfig {
+	detectors?: RedactionDetector[]
+	/**
+	 * More patterns, run before the built-in detectors. `name` labels their placeholders.
+	 * @note Invalid patterns are skipped with a warning.
+	 */
+	customPatterns?: { name: string; pattern: string }[]
+}
+
+interface Detector {
+	label: string
+	regex: RegExp
+	validate?: (match: string) => boolean
+}
+
+const BUILTIN_DETECTORS: Record<RedactionDetector, Detector> = {
+	phone: {
+		label: 'phone',
+		regex: /(?<![\d+])(?:1[3-9]\d{9}|\+\d{1,3}[ -]?\d{2,4}(?:[ -]?\d{3,4}){2})(?!\d)/g,
+	},
+	email: { label: 'email', regex: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+	idCard: {
+		label: 'id',
+		regex: /(?<!\d)[1-9]\d{5}(?:19|20)\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])\d{3}[\dXx](?!\d)/g,
+	},
+	bankCard: {
+		label: 'card',
+		regex: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g,
+		validate: (match) => luhn(match.replace(/\D/g, '')),
+	},
+}
+
+/**
+ * Emails go first since they may contain phone numbers,
+ * ID numbers before bank cards since some of them pass the Luhn check
+ */
+const DETECTOR_ORDER: RedactionDetector[] = ['email', 'idCard', 'bankCard', 'phone']
+
+const PLACEHOLDER_REGEX = /\{\{pii:[\w-]+\}\}/g
+
+function luhn(digits: string): boolean {
+	let sum = 0
+	for (let i = 0; i < digits.length; i++) {
+		let digit = Number(digits[digits.length - 1 - i])
+		if (i % 2 === 1) {
+			digit *= 2
+			if (digit > 9) digit -= 9
+		}
+		sum += digit
+	}
+	return sum % 10 === 0
+}
+
+export class Redactor {
+	#detectors: Detector[] = []
+	/** placeholder -> original value */
+	#values: Map<string, string>
+
+	/**
+	 * @param values placeholders of a resumed task, see `values`
+	 */
+	constructor(config: RedactionConfig = {}, values: Record<string, string> = {}) {
+		this.#values = new Map(Object.entries(values))
+		for (const { name, pattern } of config.customPatterns ?? []) {
+			try {
+				const label = name.toLowerCase().replace(/[^\w-]+/g, '_') || 'custom'
+				this.#detectors.push({ label, regex: new RegExp(pattern, 'g') })
+			} catch (error) {
+				console.warn(`[Redactor] Invalid pattern "${name}" skipped:`, error)
+			}
+		}
+		for (const detector of DETECTOR_ORDER) {
+			if (config.detectors?.includes(detector)) this.#detectors.push(BUILTIN_DETECTORS[detector])
+		}
+	}
+
+	get enabled(): boolean {
+		return this.#detectors.length > 0
+	}
+
+	/**
+	 * Placeholders seen so far and their original values, kept with the task to restore them after a page load
+	 */
+	get values(): Record<string, string> {
+		return Object.fromEntries(this.#values)
+	}
+
+	/**
+	 * Replace detected values with their placeholders and remember them
+	 */
+	redact(text: string): string {
+		for (const detector of this.#detectors) {
+			text = text.replace(detector.regex, (match) => {
+				// an empty match would be replaced at every position
+				if (!match || (detector.validate && !detector.validate(match))) return match
+				const placeholder = `{{pii:${detector.label}_${hash(match).slice(0, 6)}}}`
+				this.#values.set(placeholder, match)
+				return placeholder
+			})
+		}
+		return text
+	}
+
+	/**
+	 * Replace placeholders with the original values.
+	 * Placeholders not seen by this redactor, e.g. made up by the model, are returned in `missing`.
+	 */
+	restore(text: string): { text: string; missing: string[] } {
+		const missing: string[] = []
+		const restored = text.replace(PLACEHOLDER_REGEX, (placeholder) => {
+			const value = this.#values.get(placeholder)
+			if (value !== undefined) return value
+			missing.push(placeholder)
+			return placeholder
+		})
+		return { text: restored, missing }
+	}
+}
@@ -0,0 +1,55 @@
+/**
+ * Secrets the agent uses without seeing them.
+ *
+ * Tasks and the agent refer to a secret by its placeholder, e.g. `{{secret:erp_password}}`.
+ * `input_text` types the real value, and values are masked back to their placeholders
+ * in everything sent to the LLM: page content, action results, even the task itself.
+ */
+
+export interface Secret {
+	/** referred to as `{{secret:name}}`, letters, digits, `_`, `-` and `.` */
+	name: string
+	value: string
+	/** what the secret is for, given to the agent */
+	description?: string
+}
+
+const PLACEHOLDER_REGEX = /\{\{\s*secret:([\w.-]+)\s*\}\}/g
+
+export function secretPlaceholder(name: string): string {
+	return `{{secret:${name}}}`
+}
+
+/**
+ * Replace placeholders with the values of the secrets.
+ * Names without a secret are left as they are and returned in `missing`.
+ */
+export function fillSecrets(text: string, secrets: Secret[]): { text: string; missing: string[] } {
+	const missing: string[] = []
+	const filled = text.replace(PLACEHOLDER_REGEX, (placeholder, name: string) => {
+		const secret = secrets.find((s) => s.name === name)
+		if (secret) return secret.value
+		missing.push(name)
+		return placeholder
+	})
+	return { text: filled, missing }
+}
+
+/**
+ * Replace the values of the secrets with their placeholders, URL-encoded values included.
+ * Longer values go first, so a value containing another one is masked whole.
+ */
+export function maskSecrets(text: string, secrets: Secret[]): string {
+	const values = secrets
+		.flatMap((secret) => {
+			const encoded = encodeURIComponent(secret.value)
+			return encoded === secret.value ? [[secret.value, secret.name]] : [[secret.value, secret.name], [encoded, secret.name]]
+		})
+		.filter(([value]) => value)
+		.sort(([a], [b]) => b.length - a.length)
+
+	for (const [value, name] of values) {
+		text = text.split(value).join(secretPlaceholder(name))
+	}
+	return text
+}
@@ -5,7 +5,10 @@
 import zod, { type z } from 'zod'
 
 import type { PageAgent } from '../PageAgent'
-import { waitFor } from '../utils'
+import { MESSAGE_TYPES } from '../../messages'
+import { EXTRACTION_MAX_OUTPUT_CHARS } from '../config/constants'
+import { fillSecrets, maskSecrets } from '../secrets'
+import { normalizeUrl, truncate, waitFor } from '../utils'
 
 /**
  * Internal tool definition that has access to PageAgent `this` context
@@ -91,13 +94,37 @@ tools.set(
 tools.set(
 	'input_text',
 	tool({
-		description: '在输入框中输入文本（先点击再输入）',
+		description: '在输入框中输入文本（先点击再输入），text中的{{secret:名称}}和{{pii:...}}占位符会替换为真实值',
 		inputSchema: zod.object({
 			index: zod.number().int().min(0),
 			text: zod.string(),
 		}),
 		execute: async function (this: PageAgent, input) {
-			const result = await this.pageController.inputText(input.index, input.text)
+			const secrets = this.config.secrets ?? []
+			const { text, missing } = fillSecrets(input.text, secrets)
+			if (missing.length) {
+				return `❌ Secret ${missing.join(', ')} not found. Available: ${secrets.map((s) => s.name).join(', ') || 'none'}`
+			}
+			const restored = this.redactor.restore(text)
+			if (restored.missing.length) {
+				return `❌ Unknown redacted value ${restored.missing.join(', ')}, only values on the current page can be typed back`
+			}
+			const result = await this.pageController.inputText(input.index, restored.text)
+			// the message repeats the text, keep the values out of the history
+			return maskSecrets(result.message, secrets)
+		},
+	})
+)
+
+tools.set(
+	'get_dropdown_options',
+	tool({
+		description: '列出下拉菜单的所有选项（原生select、antd Select、ARIA combobox/listbox），选择前先用它获取准确的选项文本',
+		inputSchema: zod.object({
+			index: zod.number().int().min(0),
+		}),
+		execute: async function (this: PageAgent, input) {
+			const result = await this.pageController.getDropdownOptions(input.index)
 			return result.message
 		},
 	})
@@ -106,7 +133,7 @@ tools.set(
 tools.set(
 	'select_dropdown_option',
 	tool({
-		description: '选择下拉菜单选项，text为选项文本',
+		description: '选择下拉菜单选项，text为选项文本（以get_dropdown_options返回的为准），支持原生select和自定义下拉组件',
 		inputSchema: zod.object({
 			index: zod.number().int().min(0),
 			text: zod.string(),
@@ -118,6 +145,22 @@ tools.set(
 	})
 )
 
+tools.set(
+	'set_widget_value',
+	tool({
+		description:
+			'设置带data-page-agent-widget属性的组件库控件的值。checkbox/radio/switch填true或false（已是目标状态则不操作），date-picker填日期文本（格式与控件显示一致，范围用~分隔），select填选项文本',
+		inputSchema: zod.object({
+			index: zod.number().int().min(0),
+			value: zod.string(),
+		}),
+		execute: async function (this: PageAgent, input) {
+			const result = await this.pageController.setWidgetValue(input.index, input.value)
+			return result.message
+		},
+	})
+)
+
 /**
  * @note Reference from browser-use
  */
@@ -163,6 +206,48 @@ tools.set(
 	})
 )
 
+tools.set(
+	'extract_structured_data',
+	tool({
+		description:
+			'从整个页面的文本（不限于可交互元素和可视区域）中提取结构化数据。goal描述要提取什么，schema为可选的JSON Schema。任务成功时，最后一次提取的结果会随任务结果一并返回。',
+		inputSchema: zod.object({
+			goal: zod.string(),
+			schema: zod.record(zod.any()).optional(),
+		}),
+		execute: async function (this: PageAgent, input) {
+			try {
+				const data = await this.extractStructuredData(input.goal, input.schema)
+				const json = JSON.stringify(data, null, 2) ?? 'null'
+				return `✅ Extracted data:\n${truncate(json, EXTRACTION_MAX_OUTPUT_CHARS)}`
+			} catch (error) {
+				// a stop during the extraction is not a failed extraction
+				if (this.abortSignal.aborted) throw new Error('AbortError')
+				return `❌ Failed to extract data: ${(error as Error)?.message ?? error}`
+			}
+		},
+	})
+)
+
+tools.set(
+	'upload_file',
+	tool({
+		description: '上传附件到文件输入框，attachment为<attachments>中的附件名',
+		inputSchema: zod.object({
+			index: zod.number().int().min(0),
+			attachment: zod.string(),
+		}),
+		execute: async function (this: PageAgent, input) {
+			const attachments = this.config.attachments ?? []
+			if (!attachments.some((a) => a.name === input.attachment)) {
+				return `❌ Attachment "${input.attachment}" not found. Available: ${attachments.map((a) => a.name).join(', ') || 'none'}`
+			}
+			const result = await this.pageController.uploadFile(input.index, input.attachment)
+			return result.message
+		},
+	})
+)
+
 tools.set(
 	'execute_javascript',
 	tool({
@@ -191,9 +276,123 @@ tools.set(
 	})
 )
 
-// @todo get_dropdown_options
-// @todo select_dropdown_option
+/**
+ * Tab tools.
+ * The background service worker owns the task across tabs. Moving to another tab suspends this agent
+ * once the step is recorded, then the task resumes in the target tab with the same history.
+ * @extension-only
+ */
+async function sendTabMessage(type: string, payload: Record<string, unknown>) {
+	return chrome.runtime.sendMessage({ type, payload, timestamp: Date.now() })
+}
+
+tools.set(
+	'open_tab',
+	tool({
+		description: '在新标签页打开URL并切换过去',
+		inputSchema: zod.object({
+			url: zod.string(),
+		}),
+		execute: async function (this: PageAgent, input) {
+			// resolved here, the service worker would resolve it against the extension origin
+			const url = normalizeUrl(input.url, await this.pageController.getCurrentUrl())
+			if (!url) return `❌ Invalid URL: ${input.url}, only http and https URLs can be opened.`
+			const response = await sendTabMessage(MESSAGE_TYPES.TAB_OPEN, { url })
+			if (!response?.success) return `❌ Failed to open tab: ${response?.error ?? 'unknown error'}`
+			this.suspend('TAB_SWITCHED')
+			return `✅ Opened ${url} in new tab ${response.tabId} and switched to it.`
+		},
+	})
+)
+
+tools.set(
+	'switch_tab',
+	tool({
+		description: '切换到任务已打开的另一个标签页，tab_id见Open tabs',
+		inputSchema: zod.object({
+			tab_id: zod.number().int(),
+		}),
+		execute: async function (this: PageAgent, input) {
+			const response = await sendTabMessage(MESSAGE_TYPES.TAB_SWITCH, { tabId: input.tab_id })
+			if (!response?.success) return `❌ Failed to switch tab: ${response?.error ?? 'unknown error'}`
+			if (response.alreadyActive) return `✅ Tab ${input.tab_id} is already the current tab.`
+			this.suspend('TAB_SWITCHED')
+			return `✅ Switched to tab ${input.tab_id}.`
+		},
+	})
+)
+
+tools.set(
+	'close_tab',
+	tool({
+		description: '关闭任务打开的标签页（不能关闭当前标签页）',
+		inputSchema: zod.object({
+			tab_id: zod.number().int(),
+		}),
+		execute: async function (this: PageAgent, input) {
+			const response = await sendTabMessage(MESSAGE_TYPES.TAB_CLOSE, { tabId: input.tab_id })
+			if (!response?.success) return `❌ Failed to close tab: ${response?.error ?? 'unknown error'}`
+			return `✅ Closed tab ${input.tab_id}.`
+		},
+	})
+)
+
+/**
+ * Navigation tools.
+ * The navigation runs after the step is recorded, see `PageAgent.navigateAfterStep`.
+ */
+tools.set(
+	'go_back',
+	tool({
+		description: '返回上一页（浏览器后退）',
+		inputSchema: zod.object({}),
+		execute: async function (this: PageAgent) {
+			if (!(await this.pageController.canGoBack())) return '❌ There is no previous page to go back to.'
+			this.navigateAfterStep(() => this.pageController.goBack())
+			return '✅ Navigated back to the previous page.'
+		},
+	})
+)
+
+tools.set(
+	'go_forward',
+	tool({
+		description: '前进到下一页（浏览器前进）',
+		inputSchema: zod.object({}),
+		execute: async function (this: PageAgent) {
+			if (!(await this.pageController.canGoForward())) return '❌ There is no next page to go forward to.'
+			this.navigateAfterStep(() => this.pageController.goForward())
+			return '✅ Navigated forward to the next page.'
+		},
+	})
+)
+
+tools.set(
+	'navigate_to_url',
+	tool({
+		description: '在当前标签页打开指定URL',
+		inputSchema: zod.object({
+			url: zod.string(),
+		}),
+		execute: async function (this: PageAgent, input) {
+			const url = normalizeUrl(input.url, await this.pageController.getCurrentUrl())
+			if (!url) return `❌ Invalid URL: ${input.url}, only http and https URLs can be opened.`
+			this.navigateAfterStep(() => this.pageController.navigateTo(url))
+			return `✅ Navigated to ${url}.`
+		},
+	})
+)
+
+tools.set(
+	'reload',
+	tool({
+		description: '刷新当前页面',
+		inputSchema: zod.object({}),
+		execute: async function (this: PageAgent) {
+			this.navigateAfterStep(() => this.pageController.reload())
+			return '✅ Reloaded the current page.'
+		},
+	})
+)
+
 // @todo send_keys
-// @todo upload_file
-// @todo go_back
-// @todo extract_structured_data
@@ -67,6 +67,28 @@ export function randomID(existingIDs?: string[]): string {
 
 //
 
+/**
+ * Read string fields from a JSON object that is still being streamed.
+ * Fields that have not started yet are left out, the last one may be incomplete.
+ */
+export function parsePartialJsonStrings<K extends string>(json: string, keys: K[]): Partial<Record<K, string>> {
+	const result: Partial<Record<K, string>> = {}
+	for (const key of keys) {
+		const match = new RegExp(`"${key}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)`).exec(json)
+		if (!match) continue
+		// drop a unicode escape cut in the middle
+		const raw = match[1].replace(/\\u[0-9a-fA-F]{0,3}$/, '')
+		try {
+			result[key] = JSON.parse(`"${raw}"`)
+		} catch {
+			result[key] = raw
+		}
+	}
+	return result
+}
+
+//
+
 if (!window.__PAGE_AGENT_IDS__) {
 	window.__PAGE_AGENT_IDS__ = []
 }
@@ -83,4 +105,48 @@ export function uid() {
 	return id
 }
 
+/**
+ * Absolute http(s) URL of a URL given by the model, null if it is invalid or has another scheme.
+ * Accepts URLs without scheme, e.g. `example.com/path`, and paths relative to `base`, e.g. `/account` or `?page=2`.
+ * @note `javascript:`, `data:`, `file:` and browser pages are refused, the model must not run scripts through navigation.
+ */
+export function normalizeUrl(url: string, base: string): string | null {
+	const text = url.trim()
+	// `localhost:3000` is a host and a port, not a scheme
+	const hasScheme = /^[a-z][a-z\d+.-]*:/i.test(text) && !/^[\w.-]+:\d/.test(text)
+	let resolved: URL
+	try {
+		if (/^(\/|\.\.?\/|\?|#)/.test(text)) resolved = new URL(text, base)
+		else resolved = new URL(hasScheme ? text : `https://${text}`)
+	} catch {
+		return null
+	}
+	return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.href : null
+}
+
+interface TokenUsage {
+	promptTokens: number
+	completionTokens: number
+	totalTokens: number
+	cachedTokens?: number
+	reasoningTokens?: number
+}
+
+/**
+ * Sum of two token usages, optional counts stay unset when neither has them
+ */
+export function addUsage<T extends TokenUsage>(a: T, b: TokenUsage): T {
+	const optional = (x?: number, y?: number) => (x === undefined && y === undefined ? undefined : (x ?? 0) + (y ?? 0))
+	const cachedTokens = optional(a.cachedTokens, b.cachedTokens)
+	const reasoningTokens = optional(a.reasoningTokens, b.reasoningTokens)
+	return {
+		...a,
+		promptTokens: a.promptTokens + b.promptTokens,
+		completionTokens: a.completionTokens + b.completionTokens,
+		totalTokens: a.totalTokens + b.totalTokens,
+		...(cachedTokens !== undefined && { cachedTokens }),
+		...(reasoningTokens !== undefined && { reasoningTokens }),
+	}
+}
+
 export * from './autoFixer'
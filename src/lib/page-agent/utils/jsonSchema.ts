@@ -0,0 +1,95 @@
+/**
+ * Convert a JSON schema into a zod schema, so LLM output can be validated against it.
+ * @note Covers the subset models and users actually write (types, enum, required, items, anyOf).
+ * Unsupported keywords are ignored and unknown types accept anything.
+ */
+import zod from 'zod'
+
+export interface JsonSchema {
+	type?: string | string[]
+	description?: string
+	enum?: unknown[]
+	const?: unknown
+	properties?: Record<string, JsonSchema>
+	required?: string[]
+	additionalProperties?: boolean | JsonSchema
+	items?: JsonSchema
+	anyOf?: JsonSchema[]
+	oneOf?: JsonSchema[]
+	nullable?: boolean
+}
+
+export function jsonSchemaToZod(schema: JsonSchema | undefined | null): zod.ZodTypeAny {
+	if (!schema || typeof schema !== 'object') return zod.any()
+
+	let result = convert(schema)
+	if (schema.nullable) result = result.nullable()
+	if (schema.description) result = result.describe(schema.description)
+	return result
+}
+
+function convert(schema: JsonSchema): zod.ZodTypeAny {
+	if (schema.const !== undefined) return zod.literal(schema.const as zod.Primitive)
+
+	if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+		const literals = schema.enum.map((value) => zod.literal(value as zod.Primitive))
+		return literals.length === 1
+			? literals[0]
+			: zod.union(literals as unknown as [zod.ZodTypeAny, zod.ZodTypeAny, ...zod.ZodTypeAny[]])
+	}
+
+	const variants = schema.anyOf ?? schema.oneOf
+	if (Array.isArray(variants) && variants.length > 0) {
+		return union(variants.map(jsonSchemaToZod))
+	}
+
+	if (Array.isArray(schema.type)) {
+		return union(schema.type.map((type) => jsonSchemaToZod({ ...schema, type })))
+	}
+
+	switch (schema.type) {
+		case 'string':
+			return zod.string()
+		case 'number':
+			return zod.number()
+		case 'integer':
+			return zod.number().int()
+		case 'boolean':
+			return zod.boolean()
+		case 'null':
+			return zod.null()
+		case 'array':
+			return zod.array(jsonSchemaToZod(schema.items))
+		case 'object':
+			return convertObject(schema)
+		default:
+			// no type but properties: treat as object
+			return schema.properties ? convertObject(schema) : zod.any()
+	}
+}
+
+function convertObject(schema: JsonSchema): zod.ZodTypeAny {
+	if (!schema.properties) {
+		return zod.record(
+			typeof schema.additionalProperties === 'object'
+				? jsonSchemaToZod(schema.additionalProperties)
+				: zod.any()
+		)
+	}
+
+	const required = new Set(schema.required ?? [])
+	const shape: Record<string, zod.ZodTypeAny> = {}
+	for (const [key, property] of Object.entries(schema.properties)) {
+		const propertySchema = jsonSchemaToZod(property)
+		shape[key] = required.has(key) ? propertySchema : propertySchema.optional()
+	}
+
+	const object = zod.object(shape)
+	return schema.additionalProperties === false ? object.strict() : object.passthrough()
+}
+
+function union(schemas: zod.ZodTypeAny[]): zod.ZodTypeAny {
+	return schemas.length === 1
+		? schemas[0]
+		: zod.union(schemas as unknown as [zod.ZodTypeAny, zod.ZodTypeAny, ...zod.ZodTypeAny[]])
+}
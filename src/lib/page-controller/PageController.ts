@@ -13,12 +13,16 @@ import {
 	pressKeys,
 	scrollHorizontally,
 	scrollVertically,
-	selectOptionElement,
+	uploadFileElement,
 } from './actions'
 import { VIEWPORT_EXPANSION } from './constants'
 import * as dom from './dom'
+import { getDropdownOptions, selectDropdownOption } from './dropdown'
+import { findElementByLocator, getElementLocator, type ElementLocator } from './locator'
 import type { FlatDomTree, InteractiveElementDomNode } from './dom/dom_tree/type'
 import { getPageInfo } from './dom/getPageInfo'
+import { guardNewPage, installWindowOpenHook } from './newPage'
+import { patchComponentLibraries, resolveWidget } from './patches/adapters'
 import { patchReact } from './patches/react'
 
 /**
@@ -27,6 +31,11 @@ import { patchReact } from './patches/react'
 export interface PageControllerConfig extends dom.DomConfig {
 	viewportExpansion?: number
 	interactionMode?: 'simulated' | 'debugger'
+	/**
+	 * Turn actions that open a new tab/window into same-tab navigation.
+	 * @see AgentConfig.experimentalPreventNewPage
+	 */
+	experimentalPreventNewPage?: boolean
 }
 
 interface ActionResult {
@@ -41,6 +50,7 @@ interface ActionResult {
  * @lifecycle
  * - beforeUpdate: Emitted before the DOM tree is updated.
  * - afterUpdate: Emitted after the DOM tree is updated.
+ * - newPage: Emitted when an action opens (or tried to open) a new page. detail: { url, prevented }
  */
 export class PageController extends EventTarget {
 	private config: PageControllerConfig
@@ -72,6 +82,8 @@ export class PageController extends EventTarget {
 		this.config = config
 
 		patchReact(this)
+		patchComponentLibraries(this)
+		void installWindowOpenHook()
 	}
 
 	// ======= State Queries =======
@@ -90,6 +102,13 @@ export class PageController extends EventTarget {
 		return document.title
 	}
 
+	/**
+	 * Get text of the whole page, not limited to interactive elements or the viewport
+	 */
+	async getPageText(): Promise<string> {
+		return (document.body?.innerText ?? '').replace(/\n{3,}/g, '\n\n').trim()
+	}
+
 	/**
 	 * Get page scroll and size info
 	 */
@@ -105,6 +124,45 @@ export class PageController extends EventTarget {
 		return this.simplifiedHTML
 	}
 
+	/**
+	 * Part of the simplified HTML of at most `maxChars`, for pages too big for the context window.
+	 * The lines are cut into consecutive chunks and the one holding the first element in the viewport is returned,
+	 * so scrolling moves to the next chunk.
+	 */
+	async getSimplifiedHTMLChunk(maxChars: number): Promise<{ html: string; chunk: number; chunks: number }> {
+		const lines = this.simplifiedHTML.split('\n')
+
+		const chunks: { start: number; end: number }[] = []
+		let start = 0
+		let size = 0
+		for (let i = 0; i < lines.length; i++) {
+			if (i > start && size + lines[i].length + 1 > maxChars) {
+				chunks.push({ start, end: i })
+				start = i
+				size = 0
+			}
+			size += lines[i].length + 1
+		}
+		chunks.push({ start, end: lines.length })
+
+		const anchor = lines.findIndex((line) => {
+			const match = /^\s*\*?\[(\d+)\]/.exec(line)
+			const element = match && this.selectorMap.get(Number(match[1]))?.ref
+			if (!(element instanceof Element)) return false
+			const rect = element.getBoundingClientRect()
+			return rect.bottom > 0 && rect.top < window.innerHeight
+		})
+		const chunk = Math.max(
+			chunks.findIndex(({ start, end }) => anchor >= start && anchor < end),
+			0
+		)
+
+		const { start: chunkStart, end: chunkEnd } = chunks[chunk]
+		// a single line can be longer than a chunk
+		const html = lines.slice(chunkStart, chunkEnd).join('\n').slice(0, maxChars)
+		return { html, chunk, chunks: chunks.length }
+	}
+
 	/**
 	 * Get text description for an element by index
 	 */
@@ -119,6 +177,34 @@ export class PageController extends EventTarget {
 		return this.selectorMap.size
 	}
 
+	/**
+	 * Get a locator of the element at index that stays valid across DOM updates, null if no such element
+	 */
+	async getElementLocator(index: number): Promise<ElementLocator | null> {
+		const element = this.selectorMap.get(index)?.ref
+		return element instanceof HTMLElement ? getElementLocator(element) : null
+	}
+
+	/**
+	 * Find the current index of the element a locator points to, null if not found or ambiguous
+	 */
+	/**
+	 * Element of an index, null if it is gone
+	 */
+	async getElement(index: number): Promise<HTMLElement | null> {
+		const element = this.selectorMap.get(index)?.ref
+		return element instanceof HTMLElement ? element : null
+	}
+
+	async findElementIndex(locator: ElementLocator): Promise<number | null> {
+		const indexes = new Map<HTMLElement, number>()
+		for (const [index, node] of this.selectorMap) {
+			if (node.ref instanceof HTMLElement) indexes.set(node.ref, index)
+		}
+		const element = findElementByLocator([...indexes.keys()], locator)
+		return element ? indexes.get(element)! : null
+	}
+
 	/**
 	 * Get last tree update timestamp
 	 */
@@ -151,9 +237,18 @@ export class PageController extends EventTarget {
 			...document.querySelectorAll('[data-page-agent-not-interactive]').values(),
 		]
 
+		const whitelist = [
+			...(this.config.interactiveWhitelist || []),
+			...document.querySelectorAll('[data-page-agent-interactive]').values(),
+		]
+
+		// elements seen by earlier pages of the tab are not new
+		await dom.loadSeen()
+
 		this.flatTree = dom.getFlatTree({
 			...this.config,
 			interactiveBlacklist: blacklist,
+			interactiveWhitelist: whitelist,
 		})
 
 		this.simplifiedHTML = dom.flatTreeToString(this.flatTree, this.config.include_attributes)
@@ -185,13 +280,20 @@ export class PageController extends EventTarget {
 		try {
 			const element = getElementByIndex(this.selectorMap, index)
 			const elemText = this.elementTextMap.get(index)
-			await clickElement(element, this.config.interactionMode)
-
-			// Handle links that open in new tabs
-			if (element instanceof HTMLAnchorElement && element.target === '_blank') {
+			const { newPageUrl, prevented } = await guardNewPage(
+				element,
+				!!this.config.experimentalPreventNewPage,
+				() => clickElement(element, this.config.interactionMode)
+			)
+
+			// Handle actions that open new tabs
+			if (newPageUrl) {
+				this.dispatchEvent(new CustomEvent('newPage', { detail: { url: newPageUrl, prevented } }))
 				return {
 					success: true,
-					message: `✅ Clicked element (${elemText ?? index}). ⚠️ Link opens in a new tab. You are not capable of reading new tabs.`,
+					message: prevented
+						? `✅ Clicked element (${elemText ?? index}). It would open a new tab, navigated to ${newPageUrl} in the current tab instead.`
+						: `✅ Clicked element (${elemText ?? index}). ⚠️ It opened a new tab (${newPageUrl}). Use switch_tab to continue in that tab.`,
 				}
 			}
 
@@ -228,6 +330,42 @@ export class PageController extends EventTarget {
 		}
 	}
 
+	/**
+	 * List options of the dropdown at index (native select, antd Select, ARIA combobox/listbox)
+	 */
+	async getDropdownOptions(index: number): Promise<ActionResult> {
+		try {
+			const element = getElementByIndex(this.selectorMap, index)
+			const elemText = this.elementTextMap.get(index)
+			const { kind, options } = await getDropdownOptions(element, this.config.interactionMode)
+
+			if (options.length === 0) {
+				return {
+					success: true,
+					message: `⚠️ Dropdown (${elemText ?? index}, ${kind}) has no options.`,
+				}
+			}
+
+			const MAX_OPTIONS = 100
+			let message = `✅ Options of dropdown (${elemText ?? index}, ${kind}):\n`
+			for (const option of options.slice(0, MAX_OPTIONS)) {
+				const flags = [option.selected && 'selected', option.disabled && 'disabled'].filter(Boolean)
+				message += `- ${JSON.stringify(option.text)}${flags.length ? ` (${flags.join(', ')})` : ''}\n`
+			}
+			if (options.length > MAX_OPTIONS) {
+				message += `... ${options.length - MAX_OPTIONS} more options\n`
+			}
+			message += 'Use select_dropdown_option with the exact text.'
+
+			return { success: true, message }
+		} catch (error) {
+			return {
+				success: false,
+				message: `❌ Failed to get dropdown options: ${error}`,
+			}
+		}
+	}
+
 	/**
 	 * Select dropdown option by index and option text
 	 */
@@ -235,7 +373,7 @@ export class PageController extends EventTarget {
 		try {
 			const element = getElementByIndex(this.selectorMap, index)
 			const elemText = this.elementTextMap.get(index)
-			await selectOptionElement(element as HTMLSelectElement, optionText)
+			await selectDropdownOption(element, optionText, this.config.interactionMode)
 
 			return {
 				success: true,
@@ -249,6 +387,54 @@ export class PageController extends EventTarget {
 		}
 	}
 
+	/**
+	 * Set the value of a component library widget (checkbox, radio, switch, date picker, select)
+	 * @see patches/adapters.ts
+	 */
+	async setWidgetValue(index: number, value: string): Promise<ActionResult> {
+		try {
+			const element = getElementByIndex(this.selectorMap, index)
+			const elemText = this.elementTextMap.get(index)
+			const widget = resolveWidget(element)
+			if (!widget) {
+				throw new Error('Element is not a component library widget, use click or input instead')
+			}
+
+			await widget.setValue(value, this.config.interactionMode ?? 'simulated')
+
+			return {
+				success: true,
+				message: `✅ Set ${widget.adapter} ${widget.kind} (${elemText ?? index}) to "${widget.getValue()}".`,
+			}
+		} catch (error) {
+			return {
+				success: false,
+				message: `❌ Failed to set widget value: ${error}`,
+			}
+		}
+	}
+
+	/**
+	 * Upload an attachment into the file input at index (or the input it wraps)
+	 */
+	async uploadFile(index: number, attachmentName: string): Promise<ActionResult> {
+		try {
+			const element = getElementByIndex(this.selectorMap, index)
+			const elemText = this.elementTextMap.get(index)
+			const uploaded = await uploadFileElement(element, attachmentName)
+
+			return {
+				success: true,
+				message: `✅ Uploaded file (${uploaded}) into element (${elemText ?? index}).`,
+			}
+		} catch (error) {
+			return {
+				success: false,
+				message: `❌ Failed to upload file: ${error}`,
+			}
+		}
+	}
+
 	/**
 	 * Scroll vertically
 	 */
@@ -346,6 +532,55 @@ export class PageController extends EventTarget {
 		}
 	}
 
+	// ======= Navigation =======
+
+	/**
+	 * Whether the session history has a previous entry
+	 * @note Falls back to `history.length` when the Navigation API is unavailable
+	 */
+	async canGoBack(): Promise<boolean> {
+		const navigation = (window as any).navigation
+		if (navigation && typeof navigation.canGoBack === 'boolean') return navigation.canGoBack
+		return window.history.length > 1
+	}
+
+	/**
+	 * Whether the session history has a next entry
+	 */
+	async canGoForward(): Promise<boolean> {
+		const navigation = (window as any).navigation
+		if (navigation && typeof navigation.canGoForward === 'boolean') return navigation.canGoForward
+		return true
+	}
+
+	/**
+	 * Navigate back in session history
+	 */
+	async goBack(): Promise<void> {
+		window.history.back()
+	}
+
+	/**
+	 * Navigate forward in session history
+	 */
+	async goForward(): Promise<void> {
+		window.history.forward()
+	}
+
+	/**
+	 * Navigate the current page to a URL
+	 */
+	async navigateTo(url: string): Promise<void> {
+		window.location.href = url
+	}
+
+	/**
+	 * Reload the current page
+	 */
+	async reload(): Promise<void> {
+		window.location.reload()
+	}
+
 	/**
 	 * Dispose and clean up resources
 	 */
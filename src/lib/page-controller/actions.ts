@@ -6,7 +6,7 @@ import type { InteractiveElementDomNode } from './dom/dom_tree/type'
 
 // ======= general utils =======
 
-async function waitFor(seconds: number): Promise<void> {
+export async function waitFor(seconds: number): Promise<void> {
 	await new Promise((resolve) => setTimeout(resolve, seconds * 1000))
 }
 
@@ -256,6 +256,65 @@ export async function selectOptionElement(selectElement: HTMLSelectElement, opti
 	await waitFor(0.1) // Wait to ensure change event processing completes
 }
 
+/**
+ * Find the file input an element stands for.
+ * Styled upload widgets usually hide the real input behind a button or label.
+ */
+export function resolveFileInput(element: HTMLElement): HTMLInputElement | null {
+	const isFileInput = (el: unknown): el is HTMLInputElement =>
+		el instanceof HTMLInputElement && el.type === 'file'
+
+	if (isFileInput(element)) return element
+	if (element instanceof HTMLLabelElement && isFileInput(element.control)) return element.control
+
+	const inner = element.querySelector('input[type="file"]')
+	if (isFileInput(inner)) return inner
+
+	const label = element.closest('label')
+	if (label && isFileInput(label.control)) return label.control
+
+	// e.g. antd Upload: <span class="ant-upload"><input type="file" hidden /><button /></span>
+	const sibling = element.parentElement?.querySelector(':scope > input[type="file"]')
+	if (isFileInput(sibling)) return sibling
+
+	return null
+}
+
+/**
+ * Set an attachment on a file input through the debugger protocol (`DOM.setFileInputFiles`).
+ * The background worker resolves the attachment name to its local path.
+ * @returns name of the uploaded attachment
+ */
+export async function uploadFileElement(element: HTMLElement, attachmentName: string): Promise<string> {
+	const input = resolveFileInput(element)
+	if (!input) {
+		throw new Error('Element is not a file input and contains no file input')
+	}
+
+	// mark the input so the debugger can locate it
+	const token = Math.random().toString(36).substring(2, 11)
+	input.setAttribute('data-page-agent-upload-target', token)
+
+	try {
+		const response: any = await new Promise((resolve) => {
+			chrome.runtime.sendMessage({
+				type: 'DEBUGGER_UPLOAD_FILE',
+				payload: { token, attachment: attachmentName },
+				timestamp: Date.now()
+			}, (response) => {
+				console.log('[PageAgent Actions] Debugger upload response:', response, 'chrome.runtime.lastError:', chrome.runtime.lastError);
+				resolve(response)
+			})
+		})
+		if (!response?.success) {
+			throw new Error(response?.error || 'Upload failed')
+		}
+		return response.attachment
+	} finally {
+		input.removeAttribute('data-page-agent-upload-target')
+	}
+}
+
 export async function scrollIntoViewIfNeeded(element: HTMLElement) {
 	const el = element as any
 	if (el.scrollIntoViewIfNeeded) {
@@ -41,11 +41,16 @@ export interface InteractiveElementDomNode {
 	isTopElement?: boolean
 	isInViewport?: boolean
 	isInteractive: true
+	isNew?: boolean
 	highlightIndex: number
 	/**
 	 * 可交互元素的 dom 引用
 	 */
 	ref: HTMLElement
+	/**
+	 * 稳定的元素指纹（标签、xpath、稳定属性的哈希），元素重新渲染或页面跳转后不变。由 getFlatTree 填充
+	 */
+	fingerprint: string
 	// 其他可选字段
 	[key: string]: unknown
 }
@@ -0,0 +1,195 @@
+/**
+ * Element fingerprints, XPaths and selectors that stay stable across DOM refreshes.
+ *
+ * Like browser-use, an element is identified by a hash of its tag, position (XPath) and attributes
+ * instead of its object reference. A re-rendered element, or the same element after a navigation,
+ * gets the same fingerprint even though it is a different DOM node.
+ */
+
+/** attributes that change with interaction state, left out of fingerprints */
+const VOLATILE_ATTRIBUTES = new Set([
+	'class',
+	'style',
+	'value',
+	'checked',
+	'selected',
+	'tabindex',
+	'aria-expanded',
+	'aria-selected',
+	'aria-checked',
+	'aria-pressed',
+	'aria-activedescendant',
+	'aria-describedby',
+	'aria-controls',
+	'aria-owns',
+])
+
+/** attributes that usually identify an element on their own, in order of preference */
+const IDENTIFYING_ATTRIBUTES = ['data-testid', 'data-test', 'data-qa', 'name', 'aria-label']
+
+/**
+ * Whether an id looks generated by a framework, e.g. `:r1:`, `el-id-1024-3`, `mui-42`
+ */
+export function isGeneratedId(id: string): boolean {
+	return /^:|\d{3,}|^(rc_|el-id-|mui-|ember|react-select-)/i.test(id)
+}
+
+function isStableAttribute(name: string): boolean {
+	if (VOLATILE_ATTRIBUTES.has(name)) return false
+	// our own marks are temporary
+	if (name.startsWith('data-page-agent-')) return false
+	return true
+}
+
+/**
+ * XPath of an element, in the same format as `dom_tree`: `html/body/div[2]/button`.
+ * Stops at shadow roots and iframes.
+ */
+export function getXPath(element: Element): string {
+	const segments: string[] = []
+	for (let current: Element | null = element; current; current = current.parentElement) {
+		const tag = current.nodeName.toLowerCase()
+		const siblings = current.parentElement
+			? Array.from(current.parentElement.children).filter((el) => el.nodeName === current!.nodeName)
+			: []
+		segments.unshift(siblings.length > 1 ? `${tag}[${siblings.indexOf(current) + 1}]` : tag)
+	}
+	return segments.join('/')
+}
+
+/**
+ * Selector matching the element by itself, without its position
+ */
+function getOwnSelector(element: Element): string | null {
+	if (element.id && !isGeneratedId(element.id)) return `#${CSS.escape(element.id)}`
+
+	const tag = element.nodeName.toLowerCase()
+	for (const name of IDENTIFYING_ATTRIBUTES) {
+		const value = element.getAttribute(name)
+		if (value) return `${tag}[${name}="${CSS.escape(value)}"]`
+	}
+	return null
+}
+
+function getPositionSelector(element: Element): string {
+	const tag = element.nodeName.toLowerCase()
+	const siblings = element.parentElement
+		? Array.from(element.parentElement.children).filter((el) => el.nodeName === element.nodeName)
+		: []
+	return siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(element) + 1})` : tag
+}
+
+/**
+ * Shortest unique CSS selector built from stable ids and identifying attributes,
+ * falling back to `nth-of-type` positions below the closest identifiable ancestor.
+ */
+export function getCssSelector(element: Element): string {
+	const root = element.getRootNode() as Document | ShadowRoot
+	const isUnique = (selector: string) => {
+		try {
+			return root.querySelectorAll(selector).length === 1
+		} catch {
+			return false
+		}
+	}
+
+	const path: string[] = []
+	for (let current: Element | null = element; current; current = current.parentElement) {
+		const own = getOwnSelector(current)
+		if (own) {
+			const selector = [own, ...path].join(' > ')
+			if (isUnique(selector)) return selector
+		}
+		path.unshift(getPositionSelector(current))
+	}
+	return path.join(' > ')
+}
+
+/**
+ * FNV-1a, 32 bits
+ */
+export function hash(text: string): string {
+	let h = 0x811c9dc5
+	for (let i = 0; i < text.length; i++) {
+		h ^= text.charCodeAt(i)
+		h = Math.imul(h, 0x01000193)
+	}
+	return (h >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Hash of the tag, XPath and stable attributes of an element
+ */
+export function getFingerprint(element: Element, xpath = getXPath(element)): string {
+	const attributes = Array.from(element.attributes)
+		.filter((attr) => isStableAttribute(attr.name))
+		.map((attr) => `${attr.name}=${attr.value}`)
+		.sort()
+	return hash([element.nodeName.toLowerCase(), xpath, ...attributes].join('\n'))
+}
+
+// ======= seen elements =======
+
+/**
+ * Kept by the background worker for each tab and origin, so elements already seen before
+ * a same-origin navigation are not new after it. Not in the page's storage, where page scripts could read them.
+ */
+const MAX_SEEN = 5000
+
+let seenFingerprints = new Set<string>()
+let seenLoaded: Promise<void> | null = null
+
+/**
+ * Load the fingerprints seen by earlier pages of the tab. Only once per page.
+ */
+export function loadSeen(): Promise<void> {
+	if (seenLoaded) return seenLoaded
+
+	seenLoaded = new Promise((resolve) => {
+		try {
+			chrome.runtime.sendMessage({ type: 'SEEN_ELEMENTS_GET', timestamp: Date.now() }, (response) => {
+				if (chrome.runtime.lastError) {
+					console.warn('[PageAgent DOM] Seen elements not loaded:', chrome.runtime.lastError)
+				}
+				// seen before this page, so older than what this page marked in the meantime
+				seenFingerprints = new Set([...(response?.fingerprints ?? []), ...seenFingerprints])
+				resolve()
+			})
+		} catch (error) {
+			// not running inside the extension, only this page remembers
+			console.warn('[PageAgent DOM] Seen elements unavailable:', error)
+			resolve()
+		}
+	})
+
+	return seenLoaded
+}
+
+/**
+ * Mark fingerprints as seen, returns those that were not seen before
+ */
+export function markSeen(fingerprints: string[]): Set<string> {
+	const fresh = new Set<string>()
+	for (const fingerprint of fingerprints) {
+		if (seenFingerprints.has(fingerprint)) continue
+		seenFingerprints.add(fingerprint)
+		fresh.add(fingerprint)
+	}
+
+	if (fresh.size > 0) {
+		// Sets keep insertion order, drop the oldest
+		const all = [...seenFingerprints].slice(-MAX_SEEN)
+		seenFingerprints = new Set(all)
+		try {
+			chrome.runtime
+				.sendMessage({ type: 'SEEN_ELEMENTS_SET', payload: { fingerprints: all }, timestamp: Date.now() })
+				.catch(() => {
+					// background unavailable, only this page remembers
+				})
+		} catch {
+			// not running inside the extension
+		}
+	}
+
+	return fresh
+}
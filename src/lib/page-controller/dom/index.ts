@@ -6,6 +6,9 @@ import {
 	InteractiveElementDomNode,
 	TextDomNode,
 } from './dom_tree/type'
+import { getFingerprint, getXPath, markSeen } from './fingerprint'
+
+export { loadSeen } from './fingerprint'
 
 export interface DomConfig {
 	interactiveBlacklist?: (Element | (() => Element))[]
@@ -15,11 +18,6 @@ export interface DomConfig {
 	highlightLabelOpacity?: number
 }
 
-/**
- * 用于检测可交互元素是否是新出现的。
- */
-const newElementsCache = new WeakMap<HTMLElement, string>()
-
 export function getFlatTree(config: DomConfig): FlatDomTree {
 	const interactiveBlacklist = [] as Element[]
 	for (const item of config.interactiveBlacklist || []) {
@@ -50,27 +48,26 @@ export function getFlatTree(config: DomConfig): FlatDomTree {
 		highlightLabelOpacity: config.highlightLabelOpacity ?? 0.1,
 	}) as FlatDomTree
 
-	const currentUrl = window.location.href
-
 	/**
-	 * 标记新出现的元素
-	 * @todo browser-use 使用 hash(位置，属性等信息) 来判断是否同一个元素，
-	 *       能够解决 1. 元素被删除后重新添加 2. 页面卸载 等问题。
-	 *       这里先简单做.
+	 * 计算可交互元素的指纹，并标记新出现的元素。
+	 * 与 browser-use 一样用 hash(位置，属性等信息) 判断是否同一个元素，
+	 * 元素被删除后重新添加、页面跳转后依然能识别。
 	 */
+	const interactiveNodes: InteractiveElementDomNode[] = []
 	for (const nodeId in elements.map) {
-		const node = elements.map[nodeId]
+		const node = elements.map[nodeId] as InteractiveElementDomNode
 		if (node.isInteractive && node.ref) {
-			const ref = node.ref as HTMLElement
-			// @note 这样太严格，元素是可以跨页面存在的
-			// if (newElementsCache.get(ref) !== currentUrl) {
-			if (!newElementsCache.has(ref)) {
-				newElementsCache.set(ref, currentUrl)
-				node.isNew = true
-			}
+			node.xpath = getXPath(node.ref)
+			node.fingerprint = getFingerprint(node.ref, node.xpath)
+			interactiveNodes.push(node)
 		}
 	}
 
+	const fresh = markSeen(interactiveNodes.map((node) => node.fingerprint))
+	for (const node of interactiveNodes) {
+		if (fresh.has(node.fingerprint)) node.isNew = true
+	}
+
 	return elements
 }
 
@@ -144,6 +141,10 @@ export function flatTreeToString(flatTree: FlatDomTree, include_attributes?: str
 		'aria-haspopup',
 		'aria-controls',
 		'aria-owns',
+
+		// component library widgets, see patches/adapters.ts
+		'data-page-agent-widget',
+		'data-page-agent-value',
 	]
 
 	const includeAttrs = [...(include_attributes || []), ...DEFAULT_INCLUDE_ATTRIBUTES]
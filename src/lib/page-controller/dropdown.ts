@@ -0,0 +1,304 @@
+/**
+ * List and select options of dropdowns, native or custom.
+ *
+ * Covers:
+ * - native `<select>`
+ * - ARIA comboboxes (`role="combobox"`, `aria-haspopup="listbox"`) and listboxes
+ * - component library selects registered by adapters, see `patches/adapters.ts`
+ *
+ * Custom dropdowns are opened by clicking their trigger, options are collected by scrolling the list,
+ * since libraries like antd virtualize it and only render a few options at a time.
+ */
+import { clickElement, selectOptionElement, waitFor } from './actions'
+
+type InteractionMode = 'simulated' | 'debugger'
+
+export interface DropdownOption {
+	text: string
+	value?: string
+	selected: boolean
+	disabled: boolean
+}
+
+export interface DropdownOptionsResult {
+	/** name of the handler that recognized the dropdown */
+	kind: string
+	options: DropdownOption[]
+}
+
+/**
+ * Handles one kind of dropdown
+ */
+export interface DropdownHandler {
+	name: string
+	/** Root element of the dropdown the element belongs to, null if not handled */
+	match(element: HTMLElement): HTMLElement | null
+	getOptions(root: HTMLElement, mode: InteractionMode): Promise<DropdownOption[]>
+	/** Select the option with the given text, throws if not found */
+	select(root: HTMLElement, text: string, mode: InteractionMode): Promise<void>
+}
+
+/**
+ * Handler for dropdowns rendering options in a popup list
+ */
+export interface PopupDropdownConfig {
+	name: string
+	match(element: HTMLElement): HTMLElement | null
+	/** element to click to open the popup */
+	getTrigger(root: HTMLElement): HTMLElement
+	/** the open popup list, null if closed */
+	getList(root: HTMLElement): HTMLElement | null
+	optionSelector: string
+	readOption(option: HTMLElement): DropdownOption
+}
+
+// ======= utils =======
+
+export function normalizeText(text: string | null | undefined): string {
+	return (text ?? '').replace(/\s+/g, ' ').trim()
+}
+
+export function isVisible(element: Element): boolean {
+	if (element.getClientRects().length === 0) return false
+	const style = window.getComputedStyle(element)
+	return style.visibility !== 'hidden' && style.display !== 'none'
+}
+
+export function getElementsByIdRefs(element: Element, ...attributes: string[]): HTMLElement[] {
+	const ids = attributes.flatMap((attr) => (element.getAttribute(attr) ?? '').split(/\s+/)).filter(Boolean)
+	return ids
+		.map((id) => element.ownerDocument.getElementById(id))
+		.filter((el): el is HTMLElement => !!el)
+}
+
+/**
+ * The element inside (or being) the list that scrolls, null if the list does not scroll
+ */
+function findScroller(list: HTMLElement): HTMLElement | null {
+	const candidates = [list, ...list.querySelectorAll<HTMLElement>('*')]
+	return (
+		candidates.find(
+			(el) =>
+				el.scrollHeight > el.clientHeight + 1 &&
+				/(auto|scroll)/.test(window.getComputedStyle(el).overflowY)
+		) ?? null
+	)
+}
+
+/**
+ * Walk a (possibly virtualized) list from top to bottom, calling `visit` on rendered options.
+ * Stops early when `visit` returns true.
+ */
+async function walkOptions(
+	list: HTMLElement,
+	optionSelector: string,
+	visit: (option: HTMLElement) => boolean | void
+): Promise<void> {
+	const visitRendered = () => {
+		for (const option of list.querySelectorAll<HTMLElement>(optionSelector)) {
+			if (visit(option)) return true
+		}
+		return false
+	}
+
+	const scroller = findScroller(list)
+	if (!scroller) {
+		visitRendered()
+		return
+	}
+
+	const originalScrollTop = scroller.scrollTop
+	scroller.scrollTop = 0
+	await waitFor(0.05)
+
+	// bounded, virtual lists can be huge
+	for (let i = 0; i < 100; i++) {
+		if (visitRendered()) return
+		if (scroller.scrollTop + scroller.clientHeight >= scroller.scrollHeight - 1) break
+		scroller.scrollTop += Math.max(scroller.clientHeight * 0.8, 20)
+		await waitFor(0.05)
+	}
+
+	scroller.scrollTop = originalScrollTop
+}
+
+function findByText<T>(items: T[], text: string, getText: (item: T) => string): T | undefined {
+	const target = normalizeText(text)
+	const exact = items.find((item) => normalizeText(getText(item)) === target)
+	if (exact) return exact
+
+	// unique case-insensitive partial match
+	const partial = items.filter((item) =>
+		normalizeText(getText(item)).toLowerCase().includes(target.toLowerCase())
+	)
+	return partial.length === 1 ? partial[0] : undefined
+}
+
+// ======= handlers =======
+
+const nativeSelectHandler: DropdownHandler = {
+	name: 'native select',
+	match(element) {
+		if (element instanceof HTMLSelectElement) return element
+		if (element instanceof HTMLLabelElement && element.control instanceof HTMLSelectElement) {
+			return element.control
+		}
+		// a wrapper of the select, unless it holds other fields that the action may have meant
+		const controls = element.querySelectorAll('select, textarea, input:not([type="hidden"])')
+		return controls.length === 1 && controls[0] instanceof HTMLSelectElement ? controls[0] : null
+	},
+	async getOptions(root) {
+		const select = root as HTMLSelectElement
+		return Array.from(select.options).map((option) => ({
+			text: normalizeText(option.textContent),
+			value: option.value,
+			selected: option.selected,
+			disabled: option.disabled,
+		}))
+	},
+	async select(root, text) {
+		const select = root as HTMLSelectElement
+		const option = findByText(Array.from(select.options), text, (opt) => opt.textContent ?? '')
+		if (!option) throw new Error(`Option with text "${text}" not found in select element`)
+		await selectOptionElement(select, normalizeText(option.textContent))
+	},
+}
+
+/**
+ * Create a handler for dropdowns that open a popup list
+ */
+export function createPopupDropdownHandler(config: PopupDropdownConfig): DropdownHandler {
+	const open = async (root: HTMLElement, mode: InteractionMode): Promise<HTMLElement> => {
+		let list = config.getList(root)
+		if (list) return list
+
+		await clickElement(config.getTrigger(root), mode)
+		for (let i = 0; i < 30 && !list; i++) {
+			await waitFor(0.05)
+			list = config.getList(root)
+		}
+		if (!list) throw new Error('Dropdown did not open after clicking it')
+		return list
+	}
+
+	const close = (root: HTMLElement) => {
+		const target = root.ownerDocument.activeElement ?? config.getTrigger(root)
+		target.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', code: 'Escape', bubbles: true, cancelable: true }))
+	}
+
+	return {
+		name: config.name,
+		match: config.match,
+		async getOptions(root, mode) {
+			const list = await open(root, mode)
+			const options = new Map<string, DropdownOption>()
+			await walkOptions(list, config.optionSelector, (el) => {
+				const option = config.readOption(el)
+				if (option.text && !options.has(option.text)) options.set(option.text, option)
+			})
+			close(root)
+			return [...options.values()]
+		},
+		async select(root, text, mode) {
+			const list = await open(root, mode)
+
+			const findOption = async (optionText: string) => {
+				let found: HTMLElement | undefined
+				await walkOptions(list, config.optionSelector, (el) => {
+					if (config.readOption(el).text === normalizeText(optionText)) {
+						found = el
+						return true
+					}
+				})
+				return found
+			}
+
+			let target = await findOption(text)
+			if (!target) {
+				// no exact match, look for a unique partial one.
+				// virtual lists recycle option elements, so match on texts and walk again
+				const texts: string[] = []
+				await walkOptions(list, config.optionSelector, (el) => {
+					texts.push(config.readOption(el).text)
+				})
+				const partial = findByText(texts, text, (t) => t)
+				if (partial) target = await findOption(partial)
+			}
+
+			if (!target) {
+				close(root)
+				throw new Error(`Option with text "${text}" not found. Use get_dropdown_options to list the options`)
+			}
+			if (config.readOption(target).disabled) {
+				close(root)
+				throw new Error(`Option "${text}" is disabled`)
+			}
+
+			await clickElement(target, mode)
+			await waitFor(0.1)
+		},
+	}
+}
+
+const ariaDropdownHandler = createPopupDropdownHandler({
+	name: 'aria combobox',
+	match: (element) =>
+		element.closest<HTMLElement>('[role="combobox"], [role="listbox"], [aria-haspopup="listbox"]'),
+	getTrigger: (root) => root,
+	getList(root) {
+		if (root.getAttribute('role') === 'listbox') return root
+
+		const candidates = [
+			...getElementsByIdRefs(root, 'aria-controls', 'aria-owns'),
+			...root.querySelectorAll<HTMLElement>('[role="listbox"]'),
+		]
+		// ARIA 1.1 pattern: the combobox wraps a textbox that references the listbox
+		for (const textbox of root.querySelectorAll('[aria-controls], [aria-owns]')) {
+			candidates.push(...getElementsByIdRefs(textbox, 'aria-controls', 'aria-owns'))
+		}
+		return candidates.find((el) => isVisible(el) && el.querySelector('[role="option"]')) ?? null
+	},
+	optionSelector: '[role="option"]',
+	readOption: (option) => ({
+		text: normalizeText(option.getAttribute('aria-label') || option.textContent),
+		selected: option.getAttribute('aria-selected') === 'true' || option.getAttribute('aria-checked') === 'true',
+		disabled: option.getAttribute('aria-disabled') === 'true',
+	}),
+})
+
+/** Checked in order, the first match wins */
+const dropdownHandlers: DropdownHandler[] = [nativeSelectHandler, ariaDropdownHandler]
+
+/**
+ * Add a handler for a library dropdown. Checked before the generic ARIA handler,
+ * library selects usually carry ARIA roles but need their own way to find the popup.
+ */
+export function registerDropdownHandler(handler: DropdownHandler) {
+	if (dropdownHandlers.some((h) => h.name === handler.name)) return
+	dropdownHandlers.splice(dropdownHandlers.indexOf(ariaDropdownHandler), 0, handler)
+}
+
+function resolveDropdown(element: HTMLElement): { handler: DropdownHandler; root: HTMLElement } {
+	for (const handler of dropdownHandlers) {
+		const root = handler.match(element)
+		if (root) return { handler, root }
+	}
+	throw new Error('Element is not a dropdown (native select, listbox or combobox)')
+}
+
+export async function getDropdownOptions(
+	element: HTMLElement,
+	mode: InteractionMode = 'simulated'
+): Promise<DropdownOptionsResult> {
+	const { handler, root } = resolveDropdown(element)
+	return { kind: handler.name, options: await handler.getOptions(root, mode) }
+}
+
+export async function selectDropdownOption(
+	element: HTMLElement,
+	text: string,
+	mode: InteractionMode = 'simulated'
+): Promise<void> {
+	const { handler, root } = resolveDropdown(element)
+	await handler.select(root, text, mode)
+}
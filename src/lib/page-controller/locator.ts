@@ -0,0 +1,158 @@
+/**
+ * Element locators, used to replay recorded actions.
+ *
+ * Highlight indexes change with every DOM update. A locator keeps what identifies an element
+ * across page loads: its fingerprint, selector, tag, stable attributes, text and XPath.
+ * Resolving a locator first looks for the same fingerprint, otherwise it scores the current
+ * interactive elements against it and the best unique match wins.
+ */
+import { getCssSelector, getFingerprint, getXPath, isGeneratedId } from './dom/fingerprint'
+import { normalizeText } from './dropdown'
+
+export interface ElementLocator {
+	tag: string
+	/** omitted when it looks generated, e.g. `:r1:` or `el-id-1024-3` */
+	id?: string
+	/** stable attributes, see `LOCATOR_ATTRIBUTES` */
+	attributes: Record<string, string>
+	/** normalized text content, truncated */
+	text?: string
+	/** XPath at recording time */
+	xpath: string
+	/** unique CSS selector at recording time */
+	selector?: string
+	/** see `dom/fingerprint.ts` */
+	fingerprint?: string
+}
+
+/** attributes worth matching on, the first ones are meant to identify elements */
+const LOCATOR_ATTRIBUTES = [
+	'data-testid',
+	'data-test',
+	'data-qa',
+	'name',
+	'aria-label',
+	'placeholder',
+	'title',
+	'role',
+	'type',
+	'href',
+]
+const TEST_ATTRIBUTES = new Set(['data-testid', 'data-test', 'data-qa'])
+
+const MAX_TEXT_LENGTH = 100
+
+function getText(element: HTMLElement): string {
+	return normalizeText(element.textContent).slice(0, MAX_TEXT_LENGTH)
+}
+
+export function getElementLocator(element: HTMLElement): ElementLocator {
+	const attributes: Record<string, string> = {}
+	for (const name of LOCATOR_ATTRIBUTES) {
+		const value = element.getAttribute(name)
+		if (value) attributes[name] = value
+	}
+
+	const text = getText(element)
+	const xpath = getXPath(element)
+	return {
+		tag: element.tagName.toLowerCase(),
+		...(element.id && !isGeneratedId(element.id) && { id: element.id }),
+		attributes,
+		...(text && { text }),
+		xpath,
+		selector: getCssSelector(element),
+		fingerprint: getFingerprint(element, xpath),
+	}
+}
+
+/**
+ * How well an element matches the locator, -Infinity if it cannot be the element
+ */
+function scoreElement(element: HTMLElement, locator: ElementLocator): number {
+	if (element.tagName.toLowerCase() !== locator.tag) return -Infinity
+
+	let score = 0
+	if (locator.id) score += element.id === locator.id ? 10 : -5
+
+	for (const [name, value] of Object.entries(locator.attributes)) {
+		const weight = TEST_ATTRIBUTES.has(name) ? 8 : 3
+		const actual = element.getAttribute(name)
+		if (actual === value) score += weight
+		else if (actual !== null) score -= weight
+	}
+
+	if (locator.text) {
+		const text = getText(element)
+		if (text === locator.text) score += 5
+		else if (text && (text.includes(locator.text) || locator.text.includes(text))) score += 2
+		else score -= 3
+	}
+
+	if (getXPath(element) === locator.xpath) score += 4
+
+	if (locator.selector) {
+		const root = element.getRootNode() as Document | ShadowRoot
+		try {
+			if (root.querySelector(locator.selector) === element) score += 4
+		} catch {
+			// invalid selector in a hand-edited macro
+		}
+	}
+
+	return score
+}
+
+/**
+ * Best score an element can get, when everything matches
+ */
+function maxScore(locator: ElementLocator): number {
+	let score = 4
+	if (locator.selector) score += 4
+	if (locator.id) score += 10
+	for (const name of Object.keys(locator.attributes)) score += TEST_ATTRIBUTES.has(name) ? 8 : 3
+	if (locator.text) score += 5
+	return score
+}
+
+/**
+ * Find the element the locator points to among candidates.
+ * Returns null when no candidate matches at least half of the locator, or when the best match is ambiguous.
+ */
+export function findElementByLocator(candidates: HTMLElement[], locator: ElementLocator): HTMLElement | null {
+	if (locator.fingerprint) {
+		const same = candidates.filter((element) => getFingerprint(element) === locator.fingerprint)
+		if (same.length === 1) return same[0]
+	}
+
+	let best: HTMLElement | null = null
+	let bestScore = -Infinity
+	let ambiguous = false
+
+	for (const element of candidates) {
+		const score = scoreElement(element, locator)
+		if (score > bestScore) {
+			best = element
+			bestScore = score
+			ambiguous = false
+		} else if (score === bestScore) {
+			ambiguous = true
+		}
+	}
+
+	if (!best || ambiguous || bestScore < maxScore(locator) / 2) return null
+	return best
+}
+
+/**
+ * Short description for messages, e.g. `button "Submit" [name=submit]`
+ */
+export function describeLocator(locator: ElementLocator): string {
+	const attributes = Object.entries(locator.attributes)
+		.slice(0, 2)
+		.map(([name, value]) => `[${name}=${value}]`)
+		.join('')
+	return [locator.tag + (locator.id ? `#${locator.id}` : ''), locator.text && `"${locator.text}"`, attributes]
+		.filter(Boolean)
+		.join(' ')
+}
@@ -0,0 +1,166 @@
+/**
+ * Detect actions that open a new page (tab/window), optionally keeping them in the current tab.
+ *
+ * Covers:
+ * - anchors with `target` (or inherited from `<base target>`)
+ * - form submissions with `target` / `formtarget`
+ * - `window.open` calls from page scripts
+ *
+ * @note `window.open` lives in the page's main world, which content scripts cannot patch.
+ * The background service worker injects a hook there, the two worlds talk through
+ * a `data-page-agent-new-page` attribute on <html> and a `PageAgent::WindowOpen` event.
+ */
+
+const MODE_ATTRIBUTE = 'data-page-agent-new-page'
+const WINDOW_OPEN_EVENT = 'PageAgent::WindowOpen'
+
+export interface NewPageGuardResult<T> {
+	result: T
+	/** URL of the new page the action tried to open, null if none */
+	newPageUrl: string | null
+	/** whether the new page was turned into a same-tab navigation */
+	prevented: boolean
+}
+
+let windowOpenHookInstalled: Promise<void> | null = null
+
+/**
+ * Ask the background worker to hook `window.open` in the main world. Only once per page.
+ */
+export function installWindowOpenHook(): Promise<void> {
+	if (windowOpenHookInstalled) return windowOpenHookInstalled
+
+	windowOpenHookInstalled = new Promise((resolve) => {
+		try {
+			chrome.runtime.sendMessage(
+				{ type: 'INSTALL_WINDOW_OPEN_HOOK', timestamp: Date.now() },
+				(response) => {
+					if (!response?.success) {
+						console.warn('[PageAgent NewPage] window.open hook not installed:', response?.error ?? chrome.runtime.lastError)
+					}
+					resolve()
+				}
+			)
+		} catch (error) {
+			// not running inside the extension
+			console.warn('[PageAgent NewPage] window.open hook unavailable:', error)
+			resolve()
+		}
+	})
+
+	return windowOpenHookInstalled
+}
+
+/**
+ * Whether a browsing context target opens a new page
+ */
+function opensNewPage(target: string | null | undefined): boolean {
+	if (!target) return false
+	const normalized = target.trim().toLowerCase()
+	if (!normalized || ['_self', '_parent', '_top'].includes(normalized)) return false
+	if (normalized === '_blank') return true
+	// named target: opens a new page unless a frame with that name exists
+	return !document.querySelector(`iframe[name="${CSS.escape(target)}"], frame[name="${CSS.escape(target)}"]`)
+}
+
+function getBaseTarget(): string {
+	return document.querySelector<HTMLBaseElement>('base[target]')?.target ?? ''
+}
+
+/**
+ * Run an action on an element while watching for new pages.
+ * With `preventNewPage`, targets are rewritten to `_self` and `window.open` navigates the current tab.
+ */
+export async function guardNewPage<T>(
+	element: HTMLElement,
+	preventNewPage: boolean,
+	action: () => Promise<T>
+): Promise<NewPageGuardResult<T>> {
+	const restoreFunctions = [] as (() => void)[]
+	let newPageUrl: string | null = null
+
+	// anchors
+	const anchor = element.closest('a')
+	if (anchor && anchor.href) {
+		const target = anchor.getAttribute('target') ?? getBaseTarget()
+		if (opensNewPage(target)) {
+			newPageUrl = anchor.href
+			if (preventNewPage) {
+				const original = anchor.getAttribute('target')
+				anchor.setAttribute('target', '_self')
+				restoreFunctions.push(() => {
+					if (original === null) anchor.removeAttribute('target')
+					else anchor.setAttribute('target', original)
+				})
+			}
+		}
+	}
+
+	// form submissions
+	const submitter = element.closest<HTMLButtonElement | HTMLInputElement>(
+		'button, input[type="submit"], input[type="image"]'
+	)
+	const form = submitter?.form
+	if (submitter && form && (submitter.type === 'submit' || submitter.type === 'image')) {
+		const target = submitter.getAttribute('formtarget') || form.getAttribute('target') || getBaseTarget()
+		if (opensNewPage(target)) {
+			newPageUrl = submitter.formAction || form.action
+			if (preventNewPage) {
+				const originalFormTarget = form.getAttribute('target')
+				const originalSubmitterTarget = submitter.getAttribute('formtarget')
+				form.setAttribute('target', '_self')
+				submitter.removeAttribute('formtarget')
+				restoreFunctions.push(() => {
+					if (originalFormTarget === null) form.removeAttribute('target')
+					else form.setAttribute('target', originalFormTarget)
+					if (originalSubmitterTarget !== null) submitter.setAttribute('formtarget', originalSubmitterTarget)
+				})
+			}
+		}
+	}
+
+	// window.open
+	await installWindowOpenHook()
+	const onWindowOpen = (e: Event) => {
+		const url = (e as CustomEvent).detail
+		if (typeof url === 'string') newPageUrl = url
+	}
+	window.addEventListener(WINDOW_OPEN_EVENT, onWindowOpen)
+	document.documentElement.setAttribute(MODE_ATTRIBUTE, preventNewPage ? 'prevent' : 'detect')
+	restoreFunctions.push(() => {
+		document.documentElement.removeAttribute(MODE_ATTRIBUTE)
+		window.removeEventListener(WINDOW_OPEN_EVENT, onWindowOpen)
+	})
+
+	try {
+		const result = await action()
+		return { result, newPageUrl, prevented: preventNewPage && newPageUrl !== null }
+	} finally {
+		for (const fn of restoreFunctions) fn()
+	}
+}
+
+/**
+ * Injected into the page's main world by the background worker. Must be self-contained.
+ */
+export function hookWindowOpen() {
+	const w = window as any
+	if (w.__PAGE_AGENT_WINDOW_OPEN_HOOKED__) return
+	w.__PAGE_AGENT_WINDOW_OPEN_HOOKED__ = true
+
+	const originalOpen = window.open
+	window.open = function (this: Window, ...args: any[]) {
+		const mode = document.documentElement.getAttribute('data-page-agent-new-page')
+		const [url, target] = args
+		const sameTab = typeof target === 'string' && ['_self', '_parent', '_top'].includes(target.toLowerCase())
+		if (mode && url && !sameTab) {
+			const href = new URL(String(url), window.location.href).href
+			window.dispatchEvent(new CustomEvent('PageAgent::WindowOpen', { detail: href }))
+			if (mode === 'prevent') {
+				window.location.href = href
+				return null
+			}
+		}
+		return originalOpen.apply(this, args as Parameters<typeof window.open>)
+	}
+}
@@ -0,0 +1,220 @@
+/**
+ * Component library adapters.
+ *
+ * Libraries like antd and Element UI hide the real inputs behind styled wrappers:
+ * the input is invisible (or zero-sized) and the wrapper carries no state the agent can read.
+ * Before each DOM tree update, adapters mark widget roots so that:
+ * - the root gets one index, the hidden inputs inside do not get their own
+ * - the widget kind and its current value are shown to the agent
+ *   (`data-page-agent-widget`, `data-page-agent-value`)
+ * The marks are removed after the update.
+ *
+ * Adapters also give the agent semantic actions (`set_widget_value`), e.g. "checked=false"
+ * only clicks a checkbox when it is checked, instead of blindly toggling it.
+ */
+import { clickElement, inputTextElement, pressKeys, waitFor } from '../actions'
+import { registerDropdownHandler, selectDropdownOption, type DropdownHandler } from '../dropdown'
+import type { PageController } from '../PageController'
+import { antDesignVueAdapter, antdAdapter } from './antd'
+import { elementUIAdapter } from './elementUI'
+import { muiAdapter } from './mui'
+
+type InteractionMode = 'simulated' | 'debugger'
+
+export type WidgetKind = 'checkbox' | 'radio' | 'switch' | 'date-picker' | 'select'
+
+export interface WidgetDefinition {
+	kind: WidgetKind
+	/** selector of widget roots, each root gets one index */
+	selector: string
+	/** elements inside the root that should not get their own index, e.g. hidden inputs */
+	innerSelector?: string
+	/** checkbox / radio / switch state */
+	isChecked?(root: HTMLElement): boolean
+	/** value shown to the agent, defaults to checked state or input values */
+	getValue?(root: HTMLElement): string
+	/** element to click to toggle, defaults to the hidden input (simulated mode) or the root */
+	getToggleTarget?(root: HTMLElement, mode: InteractionMode): HTMLElement
+}
+
+export interface ComponentAdapter {
+	name: string
+	/** whether the library is used on this page */
+	detect(): boolean
+	widgets: WidgetDefinition[]
+	/** handlers for the library's select components */
+	dropdownHandlers?: DropdownHandler[]
+}
+
+export interface Widget {
+	adapter: string
+	kind: WidgetKind
+	root: HTMLElement
+	getValue(): string
+	setValue(value: string, mode: InteractionMode): Promise<void>
+}
+
+const WIDGET_ATTRIBUTE = 'data-page-agent-widget'
+const VALUE_ATTRIBUTE = 'data-page-agent-value'
+const INTERACTIVE_ATTRIBUTE = 'data-page-agent-interactive'
+const NOT_INTERACTIVE_ATTRIBUTE = 'data-page-agent-not-interactive'
+
+const adapters: ComponentAdapter[] = []
+
+export function registerComponentAdapter(adapter: ComponentAdapter) {
+	if (adapters.some((a) => a.name === adapter.name)) return
+	adapters.push(adapter)
+	for (const handler of adapter.dropdownHandlers ?? []) registerDropdownHandler(handler)
+}
+
+registerComponentAdapter(antdAdapter)
+registerComponentAdapter(antDesignVueAdapter)
+registerComponentAdapter(elementUIAdapter)
+registerComponentAdapter(muiAdapter)
+
+// ======= widget behaviors =======
+
+function getInputs(root: HTMLElement): HTMLInputElement[] {
+	return [...root.querySelectorAll<HTMLInputElement>('input:not([type="hidden"])')]
+}
+
+function parseBoolean(value: string): boolean {
+	const normalized = value.trim().toLowerCase()
+	if (['true', 'on', 'yes', 'checked', '1', '是', '开'].includes(normalized)) return true
+	if (['false', 'off', 'no', 'unchecked', '0', '否', '关'].includes(normalized)) return false
+	throw new Error(`Expected true or false, got "${value}"`)
+}
+
+function getWidgetValue(definition: WidgetDefinition, root: HTMLElement): string {
+	if (definition.getValue) return definition.getValue(root)
+	if (definition.isChecked) return String(definition.isChecked(root))
+	return getInputs(root)
+		.map((input) => input.value)
+		.filter(Boolean)
+		.join(' ~ ')
+}
+
+async function setCheckedValue(definition: WidgetDefinition, root: HTMLElement, value: string, mode: InteractionMode) {
+	const checked = parseBoolean(value)
+	const isChecked = () => definition.isChecked!(root)
+	if (isChecked() === checked) return
+
+	if (definition.kind === 'radio' && !checked) {
+		throw new Error('A radio cannot be unchecked, select another option of the group instead')
+	}
+
+	const target = definition.getToggleTarget
+		? definition.getToggleTarget(root, mode)
+		: mode === 'simulated'
+			? (root.querySelector<HTMLElement>('input[type="checkbox"], input[type="radio"]') ?? root)
+			: root
+	await clickElement(target, mode)
+	await waitFor(0.1)
+
+	if (isChecked() !== checked) {
+		throw new Error(`${definition.kind} is still ${isChecked() ? 'on' : 'off'} after clicking it, it may be disabled`)
+	}
+}
+
+/**
+ * Type dates into the picker inputs and confirm with Enter.
+ * Range pickers have two inputs, values are separated by "~".
+ */
+async function setDateValue(root: HTMLElement, value: string, mode: InteractionMode) {
+	const inputs = getInputs(root)
+	if (inputs.length === 0) throw new Error('Date picker has no input')
+
+	const values = inputs.length > 1 ? value.split('~').map((v) => v.trim()) : [value.trim()]
+	if (values.length !== inputs.length) {
+		throw new Error(`Date range picker expects ${inputs.length} dates separated by "~"`)
+	}
+
+	for (let i = 0; i < inputs.length; i++) {
+		await inputTextElement(inputs[i], values[i], mode)
+		await pressKeys(['Enter'], mode)
+	}
+	await waitFor(0.1)
+}
+
+function createWidget(adapter: ComponentAdapter, definition: WidgetDefinition, root: HTMLElement): Widget {
+	return {
+		adapter: adapter.name,
+		kind: definition.kind,
+		root,
+		getValue: () => getWidgetValue(definition, root),
+		async setValue(value, mode) {
+			switch (definition.kind) {
+				case 'checkbox':
+				case 'radio':
+				case 'switch':
+					return setCheckedValue(definition, root, value, mode)
+				case 'date-picker':
+					return setDateValue(root, value, mode)
+				case 'select':
+					return selectDropdownOption(root, value, mode)
+			}
+		},
+	}
+}
+
+/**
+ * Find the library widget an element belongs to, null if none
+ */
+export function resolveWidget(element: HTMLElement): Widget | null {
+	for (const adapter of adapters) {
+		if (!adapter.detect()) continue
+		for (const definition of adapter.widgets) {
+			const root = element.closest<HTMLElement>(definition.selector)
+			if (root) return createWidget(adapter, definition, root)
+		}
+	}
+	return null
+}
+
+// ======= annotation =======
+
+const clearFunctions = [] as (() => void)[]
+
+function setTemporaryAttribute(element: Element, name: string, value: string) {
+	if (element.hasAttribute(name)) return
+	element.setAttribute(name, value)
+	clearFunctions.push(() => element.removeAttribute(name))
+}
+
+function annotateWidgets() {
+	for (const adapter of adapters) {
+		if (!adapter.detect()) continue
+
+		for (const definition of adapter.widgets) {
+			for (const root of document.querySelectorAll<HTMLElement>(definition.selector)) {
+				// already marked by another definition, e.g. a checkbox inside a select dropdown
+				if (root.hasAttribute(WIDGET_ATTRIBUTE)) continue
+
+				setTemporaryAttribute(root, WIDGET_ATTRIBUTE, definition.kind)
+				setTemporaryAttribute(root, INTERACTIVE_ATTRIBUTE, 'true')
+
+				const value = getWidgetValue(definition, root)
+				if (value) setTemporaryAttribute(root, VALUE_ATTRIBUTE, value)
+
+				if (definition.innerSelector) {
+					for (const inner of root.querySelectorAll(definition.innerSelector)) {
+						setTemporaryAttribute(inner, NOT_INTERACTIVE_ATTRIBUTE, 'true')
+					}
+				}
+			}
+		}
+	}
+}
+
+function clearAnnotations() {
+	for (const fn of clearFunctions) fn()
+	clearFunctions.length = 0
+}
+
+/**
+ * Mark component library widgets around each DOM tree update
+ */
+export function patchComponentLibraries(pageController: PageController) {
+	pageController.addEventListener('beforeUpdate', annotateWidgets)
+	pageController.addEventListener('afterUpdate', clearAnnotations)
+}
@@ -1,20 +1,124 @@
-import type { PageController } from '../PageController'
+/**
+ * antd and Ant Design Vue share the same class names, one set of widgets covers both.
+ * Old class names (antd 3 / Ant Design Vue 1) are included.
+ *
+ * antd 的 select 是 div 包 input 的结构，input 不可见，选项渲染在 portal 里并且是虚拟列表，
+ * 因此整个 select 作为一个元素交给 agent，选项通过 dropdown handler 滚动收集。
+ */
+import {
+	createPopupDropdownHandler,
+	getElementsByIdRefs,
+	isVisible,
+	normalizeText,
+} from '../dropdown'
+import type { ComponentAdapter, WidgetDefinition } from './adapters'
+
+const ANT_SELECTOR = [
+	'.ant-btn',
+	'.ant-input',
+	'.ant-select',
+	'.ant-checkbox-wrapper',
+	'.ant-radio-wrapper',
+	'.ant-switch',
+	'.ant-picker',
+	'.ant-calendar-picker',
+	'.ant-form',
+	'.ant-table',
+].join(', ')
+
+const hasAntComponents = () => !!document.querySelector(ANT_SELECTOR)
+/** Vue 3 marks its mount point, Vue 2 apps are reported as antd */
+const isVueApp = () => !!document.querySelector('[data-v-app]')
 
-const clearFunctions = [] as (() => void)[]
+const antSelectHandler = createPopupDropdownHandler({
+	name: 'antd select',
+	match: (element) =>
+		element.closest<HTMLElement>('.ant-select') ?? element.querySelector<HTMLElement>('.ant-select'),
+	getTrigger: (root) =>
+		root.querySelector<HTMLElement>('.ant-select-selector, .ant-select-selection') ?? root,
+	getList(root) {
+		for (const el of root.querySelectorAll('[aria-controls], [aria-owns]')) {
+			const linked = getElementsByIdRefs(el, 'aria-controls', 'aria-owns')[0]?.closest<HTMLElement>(
+				'.ant-select-dropdown'
+			)
+			if (linked) {
+				return isVisible(linked) && !linked.classList.contains('ant-select-dropdown-hidden')
+					? linked
+					: null
+			}
+		}
+
+		// not linked (e.g. before the first open), there is only one open dropdown at a time
+		if (!root.classList.contains('ant-select-open')) return null
+		const opened = [
+			...document.querySelectorAll<HTMLElement>('.ant-select-dropdown:not(.ant-select-dropdown-hidden)'),
+		].filter(isVisible)
+		return opened[opened.length - 1] ?? null
+	},
+	optionSelector: '.ant-select-item-option, .ant-select-dropdown-menu-item',
+	readOption: (option) => ({
+		text: normalizeText(option.getAttribute('title') || option.textContent),
+		selected:
+			option.classList.contains('ant-select-item-option-selected') ||
+			option.classList.contains('ant-select-dropdown-menu-item-selected'),
+		disabled:
+			option.classList.contains('ant-select-item-option-disabled') ||
+			option.classList.contains('ant-select-dropdown-menu-item-disabled'),
+	}),
+})
+
+const antWidgets: WidgetDefinition[] = [
+	{
+		kind: 'checkbox',
+		selector: '.ant-checkbox-wrapper',
+		innerSelector: 'input, .ant-checkbox',
+		isChecked: (root) => !!root.querySelector('.ant-checkbox-checked'),
+	},
+	{
+		kind: 'radio',
+		selector: '.ant-radio-wrapper, .ant-radio-button-wrapper',
+		innerSelector: 'input, .ant-radio, .ant-radio-button',
+		isChecked: (root) => !!root.querySelector('.ant-radio-checked, .ant-radio-button-checked'),
+	},
+	{
+		kind: 'switch',
+		selector: '.ant-switch',
+		isChecked: (root) =>
+			root.classList.contains('ant-switch-checked') || root.getAttribute('aria-checked') === 'true',
+		getToggleTarget: (root) => root,
+	},
+	{
+		kind: 'date-picker',
+		selector: '.ant-picker, .ant-calendar-picker',
+		innerSelector: 'input',
+	},
+	{
+		kind: 'select',
+		selector: '.ant-select',
+		innerSelector: 'input, .ant-select-selector, .ant-select-selection',
+		getValue: (root) =>
+			[
+				...root.querySelectorAll(
+					'.ant-select-selection-item, .ant-select-selection-selected-value, .ant-select-selection__choice__content'
+				),
+			]
+				.map((item) => normalizeText(item.getAttribute('title') || item.textContent))
+				.filter(Boolean)
+				.join(', '),
+	},
+]
 
 /**
- * antd 的 select 是 div 包 input 的结构，所有信息都在 input 标签上，
- * 但是 input 不可见，也不会出现在清洗后的树里，因此这里把他提上来
+ * The two libraries only differ in the framework, told apart to report the right library name
  */
-function fixAntdSelect() {
-	const selects = [...document.querySelectorAll('input[role="combobox"]')]
-	// for (const select of selects) {}
+function createAntAdapter(name: string, vue: boolean): ComponentAdapter {
+	return {
+		name,
+		detect: () => hasAntComponents() && isVueApp() === vue,
+		widgets: antWidgets,
+		dropdownHandlers: [antSelectHandler],
+	}
 }
 
-export function patchAntd(pageController: PageController) {
-	pageController.addEventListener('beforeUpdate', fixAntdSelect)
-	pageController.addEventListener('afterUpdate', () => {
-		for (const fn of clearFunctions) fn()
-		clearFunctions.length = 0
-	})
-}
+export const antdAdapter = createAntAdapter('antd', false)
+export const antDesignVueAdapter = createAntAdapter('ant-design-vue', true)
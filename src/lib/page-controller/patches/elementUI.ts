@@ -0,0 +1,101 @@
+/**
+ * Element UI (Vue 2) and Element Plus (Vue 3), they share the `el-` class names.
+ *
+ * Checkboxes, radios and switches keep a zero-sized input inside, the state lives in `is-checked`.
+ * Select options are rendered in a popper appended to body.
+ */
+import {
+	createPopupDropdownHandler,
+	getElementsByIdRefs,
+	isVisible,
+	normalizeText,
+} from '../dropdown'
+import type { ComponentAdapter } from './adapters'
+
+const ELEMENT_SELECTOR = [
+	'.el-button',
+	'.el-input',
+	'.el-select',
+	'.el-checkbox',
+	'.el-radio',
+	'.el-switch',
+	'.el-date-editor',
+	'.el-form',
+	'.el-table',
+].join(', ')
+
+const elSelectHandler = createPopupDropdownHandler({
+	name: 'element select',
+	match: (element) =>
+		element.closest<HTMLElement>('.el-select') ?? element.querySelector<HTMLElement>('.el-select'),
+	getTrigger: (root) =>
+		root.querySelector<HTMLElement>('.el-select__wrapper, .el-input') ?? root,
+	getList(root) {
+		// Element Plus links the input to the listbox
+		for (const el of root.querySelectorAll('[aria-controls]')) {
+			const linked = getElementsByIdRefs(el, 'aria-controls')[0]?.closest<HTMLElement>('.el-select-dropdown')
+			if (linked) return isVisible(linked) ? linked : null
+		}
+
+		// Element UI: only the focused select has its dropdown open
+		const focused = root.matches('.is-focus, .is-focused') || !!root.querySelector('.is-focus, .is-focused')
+		if (!focused) return null
+		const opened = [...document.querySelectorAll<HTMLElement>('.el-select-dropdown')].filter(isVisible)
+		return opened[opened.length - 1] ?? null
+	},
+	optionSelector: '.el-select-dropdown__item',
+	readOption: (option) => ({
+		text: normalizeText(option.textContent),
+		selected: option.classList.contains('selected') || option.classList.contains('is-selected'),
+		disabled: option.classList.contains('is-disabled'),
+	}),
+})
+
+export const elementUIAdapter: ComponentAdapter = {
+	name: 'element-ui',
+	detect: () => !!document.querySelector(ELEMENT_SELECTOR),
+	widgets: [
+		{
+			kind: 'checkbox',
+			selector: '.el-checkbox, .el-checkbox-button',
+			innerSelector: 'input, .el-checkbox__input',
+			isChecked: (root) => root.classList.contains('is-checked'),
+		},
+		{
+			kind: 'radio',
+			selector: '.el-radio, .el-radio-button',
+			innerSelector: 'input, .el-radio__input',
+			isChecked: (root) =>
+				root.classList.contains('is-checked') || root.classList.contains('is-active'),
+		},
+		{
+			kind: 'switch',
+			selector: '.el-switch',
+			innerSelector: 'input, .el-switch__core',
+			isChecked: (root) => root.classList.contains('is-checked'),
+			// the click handler is on the root, the input only mirrors the state
+			getToggleTarget: (root) => root,
+		},
+		{
+			kind: 'date-picker',
+			selector: '.el-date-editor',
+			innerSelector: 'input',
+		},
+		{
+			kind: 'select',
+			selector: '.el-select',
+			innerSelector: 'input, .el-select__wrapper, .el-input',
+			getValue: (root) => {
+				// Element Plus shows the selected label in spans, Element UI in the input
+				const items = [
+					...root.querySelectorAll('.el-select__selected-item:not(.is-hidden) .el-select__tags-text, .el-select__placeholder:not(.is-transparent), .el-select__tags-text'),
+				]
+					.map((item) => normalizeText(item.textContent))
+					.filter(Boolean)
+				if (items.length) return [...new Set(items)].join(', ')
+				return root.querySelector('input')?.value ?? ''
+			},
+		},
+	],
+	dropdownHandlers: [elSelectHandler],
+}
@@ -0,0 +1,82 @@
+/**
+ * MUI (Material UI). Relies on the global `Mui*` class names, which MUI keeps in production builds.
+ *
+ * Checkboxes, radios and switches are an invisible input over an icon, usually wrapped in
+ * a `FormControlLabel` that carries the text. The label becomes the widget root.
+ * Date pickers are only supported with the text input field (MUI X v5/v6).
+ */
+import { createPopupDropdownHandler, getElementsByIdRefs, isVisible, normalizeText } from '../dropdown'
+import type { ComponentAdapter, WidgetDefinition } from './adapters'
+
+const MUI_SELECTOR = [
+	'.MuiButtonBase-root',
+	'.MuiInputBase-root',
+	'.MuiFormControl-root',
+	'.MuiCheckbox-root',
+	'.MuiSwitch-root',
+].join(', ')
+
+const muiSelectHandler = createPopupDropdownHandler({
+	name: 'mui select',
+	match: (element) => {
+		const root = element.closest<HTMLElement>('.MuiInputBase-root')
+		return root?.querySelector('.MuiSelect-select') ? root : null
+	},
+	getTrigger: (root) => root.querySelector<HTMLElement>('.MuiSelect-select') ?? root,
+	getList(root) {
+		const trigger = root.querySelector('.MuiSelect-select')
+		const linked = trigger ? getElementsByIdRefs(trigger, 'aria-controls', 'aria-owns')[0] : null
+		if (linked) return isVisible(linked) ? linked : null
+
+		if (trigger?.getAttribute('aria-expanded') !== 'true') return null
+		const opened = [...document.querySelectorAll<HTMLElement>('.MuiPopover-paper [role="listbox"]')].filter(isVisible)
+		return opened[opened.length - 1] ?? null
+	},
+	optionSelector: '[role="option"]',
+	readOption: (option) => ({
+		text: normalizeText(option.textContent),
+		selected: option.getAttribute('aria-selected') === 'true' || option.classList.contains('Mui-selected'),
+		disabled: option.getAttribute('aria-disabled') === 'true' || option.classList.contains('Mui-disabled'),
+	}),
+})
+
+/**
+ * Widget for a MUI control that is either wrapped in a FormControlLabel or standalone
+ */
+function labeledControl(kind: 'checkbox' | 'radio' | 'switch', control: string): WidgetDefinition {
+	return {
+		kind,
+		selector: `.MuiFormControlLabel-root:has(${control}), ${control}:not(.MuiFormControlLabel-root ${control})`,
+		innerSelector: `input, ${control}, .MuiSwitch-switchBase`,
+		isChecked: (root) => root.classList.contains('Mui-checked') || !!root.querySelector('.Mui-checked'),
+		// React listens to the input, the debugger clicks on the control instead of the label text
+		getToggleTarget: (root, mode) =>
+			mode === 'simulated'
+				? (root.querySelector<HTMLElement>('input') ?? root)
+				: (root.querySelector<HTMLElement>(control) ?? root),
+	}
+}
+
+export const muiAdapter: ComponentAdapter = {
+	name: 'mui',
+	detect: () => !!document.querySelector(MUI_SELECTOR),
+	widgets: [
+		labeledControl('checkbox', '.MuiCheckbox-root'),
+		labeledControl('radio', '.MuiRadio-root'),
+		labeledControl('switch', '.MuiSwitch-root'),
+		{
+			kind: 'date-picker',
+			selector: '.MuiTextField-root:has(.MuiInputAdornment-root button[aria-label*="date" i])',
+			innerSelector: 'input',
+		},
+		{
+			kind: 'select',
+			selector: '.MuiInputBase-root:has(> .MuiSelect-select)',
+			innerSelector: 'input, .MuiSelect-select',
+			// empty selects render a zero-width space
+			getValue: (root) =>
+				normalizeText(root.querySelector('.MuiSelect-select')?.textContent?.replace(/\u200b/g, '')),
+		},
+	],
+	dropdownHandlers: [muiSelectHandler],
+}
@@ -1,38 +1,112 @@
 // Chrome Storage API wrapper for Page Agent Extension
 
-import { DEFAULT_CONFIG, type ExtensionConfig, type LLMConfig, type ToolConfig, type UIConfig } from './config'
+import { DEFAULT_CONFIG, type Attachment, type ExtensionConfig, type Secret, type LimitsConfig, type LLMConfig, type PrivacyConfig, type ToolConfig, type UIConfig } from './config'
+import type { Macro } from './page-agent/macro'
+import type { AgentHistory } from './page-agent/PageAgent'
 
 const STORAGE_KEY = 'page_agent_config'
+// Local only: lists that may outgrow the 8 KB quota of a sync item, model lists also hold API keys
+const LOCAL_CONFIG_KEY = 'page_agent_config_local'
+// Local only: paths are machine specific and should not sync across devices
+const ATTACHMENTS_KEY = 'page_agent_attachments'
+// Local only: secrets should not leave this device
+const SECRETS_KEY = 'page_agent_secrets'
+const RUNS_KEY = 'page_agent_runs'
+const MACROS_KEY = 'page_agent_macros'
+/** Oldest runs are dropped beyond this */
+const MAX_RUNS = 200
+
+/**
+ * - completed: the agent called `done` (successfully or not) or hit a task limit
+ * - error: the task threw
+ * - stopped: stopped by the user, or its tab was closed
+ */
+export type RunStatus = 'completed' | 'error' | 'stopped'
+
+/**
+ * Archived run of a task, kept after the task ends for auditing
+ */
+export interface RunRecord {
+    /** task id of the background task state */
+    id: string
+    task: string
+    /** page the task started on */
+    startUrl: string
+    /** page the task ended on */
+    endUrl?: string
+    startTime: number
+    endTime: number
+    status: RunStatus
+    success: boolean
+    /** `ExecutionResult.data` */
+    result?: unknown
+    /** `ExecutionResult.extracted` */
+    extracted?: unknown
+    error?: string
+    history: AgentHistory[]
+    /** sum of `AgentHistory.usage` */
+    usage: {
+        promptTokens: number
+        completionTokens: number
+        totalTokens: number
+    }
+}
+
+/**
+ * Parts of the configuration kept in `chrome.storage.local`, the rest is synced
+ */
+interface LocalConfig {
+    fallbacks: LLMConfig['fallbacks']
+    executor: LLMConfig['executor']
+    customPatterns: PrivacyConfig['customPatterns']
+    policies: ExtensionConfig['policies']
+}
 
 /**
  * Get the full extension configuration
  */
 export async function getConfig(): Promise<ExtensionConfig> {
-    return new Promise((resolve) => {
-        chrome.storage.sync.get([STORAGE_KEY], (result) => {
-            if (result[STORAGE_KEY]) {
-                // Merge with defaults to ensure all fields exist
-                resolve({
-                    ...DEFAULT_CONFIG,
-                    ...result[STORAGE_KEY],
-                    llm: { ...DEFAULT_CONFIG.llm, ...result[STORAGE_KEY]?.llm },
-                    tools: { ...DEFAULT_CONFIG.tools, ...result[STORAGE_KEY]?.tools },
-                    ui: { ...DEFAULT_CONFIG.ui, ...result[STORAGE_KEY]?.ui },
-                })
-            } else {
-                resolve(DEFAULT_CONFIG)
-            }
-        })
-    })
+    const [synced, local] = await Promise.all([
+        new Promise<Partial<ExtensionConfig> | undefined>((resolve) => {
+            chrome.storage.sync.get([STORAGE_KEY], (result) => resolve(result[STORAGE_KEY]))
+        }),
+        chrome.storage.local.get(LOCAL_CONFIG_KEY).then((result) => result[LOCAL_CONFIG_KEY] as Partial<LocalConfig> | undefined),
+    ])
+    if (!synced && !local) return DEFAULT_CONFIG
+
+    // Merge with defaults to ensure all fields exist, local parts were synced by older versions
+    const llm = { ...DEFAULT_CONFIG.llm, ...synced?.llm }
+    const privacy = { ...DEFAULT_CONFIG.privacy, ...synced?.privacy }
+    return {
+        ...DEFAULT_CONFIG,
+        ...synced,
+        llm: {
+            ...llm,
+            fallbacks: local?.fallbacks ?? llm.fallbacks,
+            executor: local?.executor !== undefined ? local.executor : llm.executor,
+        },
+        tools: { ...DEFAULT_CONFIG.tools, ...synced?.tools },
+        limits: { ...DEFAULT_CONFIG.limits, ...synced?.limits },
+        ui: { ...DEFAULT_CONFIG.ui, ...synced?.ui },
+        privacy: { ...privacy, customPatterns: local?.customPatterns ?? privacy.customPatterns },
+        policies: local?.policies ?? synced?.policies ?? DEFAULT_CONFIG.policies,
+    }
 }
 
 /**
- * Save the full extension configuration
+ * Save the full extension configuration, rejects when the storage refuses it, e.g. over quota
  */
 export async function saveConfig(config: ExtensionConfig): Promise<void> {
-    return new Promise((resolve) => {
-        chrome.storage.sync.set({ [STORAGE_KEY]: config }, () => {
-            resolve()
+    const { fallbacks, executor, ...llm } = config.llm
+    const { customPatterns, ...privacy } = config.privacy
+    const { policies, ...rest } = config
+    const local: LocalConfig = { fallbacks, executor, customPatterns, policies }
+
+    await chrome.storage.local.set({ [LOCAL_CONFIG_KEY]: local })
+    return new Promise((resolve, reject) => {
+        chrome.storage.sync.set({ [STORAGE_KEY]: { ...rest, llm, privacy } }, () => {
+            if (chrome.runtime.lastError) reject(new Error(chrome.runtime.lastError.message))
+            else resolve()
         })
     })
 }
@@ -71,6 +145,23 @@ export async function saveToolsConfig(toolsConfig: Partial<ToolConfig>): Promise
     await saveConfig(config)
 }
 
+/**
+ * Get task limits configuration
+ */
+export async function getLimitsConfig(): Promise<LimitsConfig> {
+    const config = await getConfig()
+    return config.limits
+}
+
+/**
+ * Save task limits configuration
+ */
+export async function saveLimitsConfig(limitsConfig: Partial<LimitsConfig>): Promise<void> {
+    const config = await getConfig()
+    config.limits = { ...config.limits, ...limitsConfig }
+    await saveConfig(config)
+}
+
 /**
  * Get UI configuration
  */
@@ -105,3 +196,88 @@ export async function isUsingDefaultConfig(): Promise<boolean> {
         config.llm.apiKey === DEFAULT_CONFIG.llm.apiKey
     )
 }
+
+/**
+ * Get the user-managed attachments available to `upload_file`
+ */
+export async function getAttachments(): Promise<Attachment[]> {
+    const result = await chrome.storage.local.get(ATTACHMENTS_KEY)
+    return result[ATTACHMENTS_KEY] || []
+}
+
+/**
+ * Save the attachments list
+ */
+export async function saveAttachments(attachments: Attachment[]): Promise<void> {
+    await chrome.storage.local.set({ [ATTACHMENTS_KEY]: attachments })
+}
+
+/**
+ * Get the secret vault, values are substituted for `{{secret:name}}` placeholders
+ */
+export async function getSecrets(): Promise<Secret[]> {
+    const result = await chrome.storage.local.get(SECRETS_KEY)
+    return result[SECRETS_KEY] || []
+}
+
+/**
+ * Save the secret vault
+ */
+export async function saveSecrets(secrets: Secret[]): Promise<void> {
+    await chrome.storage.local.set({ [SECRETS_KEY]: secrets })
+}
+
+/**
+ * Get archived runs, oldest first
+ */
+export async function getRuns(): Promise<RunRecord[]> {
+    const result = await chrome.storage.local.get(RUNS_KEY)
+    return result[RUNS_KEY] || []
+}
+
+/**
+ * Archive a run, replacing the previous record of the same task
+ */
+export async function addRun(run: RunRecord): Promise<void> {
+    const runs = (await getRuns()).filter(r => r.id !== run.id)
+    runs.push(run)
+    await chrome.storage.local.set({ [RUNS_KEY]: runs.slice(-MAX_RUNS) })
+}
+
+/**
+ * Delete one archived run
+ */
+export async function deleteRun(id: string): Promise<void> {
+    const runs = await getRuns()
+    await chrome.storage.local.set({ [RUNS_KEY]: runs.filter(r => r.id !== id) })
+}
+
+/**
+ * Delete all archived runs
+ */
+export async function clearRuns(): Promise<void> {
+    await chrome.storage.local.remove(RUNS_KEY)
+}
+
+/**
+ * Get saved macros
+ */
+export async function getMacros(): Promise<Macro[]> {
+    const result = await chrome.storage.local.get(MACROS_KEY)
+    return result[MACROS_KEY] || []
+}
+
+/**
+ * Get a saved macro by id
+ */
+export async function getMacro(id: string): Promise<Macro | undefined> {
+    const macros = await getMacros()
+    return macros.find(m => m.id === id)
+}
+
+/**
+ * Save the macros list
+ */
+export async function saveMacros(macros: Macro[]): Promise<void> {
+    await chrome.storage.local.set({ [MACROS_KEY]: macros })
+}
@@ -1,4 +1,4 @@
-import { type Step, UIState } from './UIState'
+import { type Step, type StepUsage, UIState } from './UIState'
 import { I18n, type SupportedLanguage } from './i18n'
 import { truncate } from './utils'
 
@@ -15,20 +15,50 @@ export interface PanelConfig {
 	getPaused: () => boolean
 }
 
+/**
+ * Item of the task plan, shown as a checklist
+ */
+export interface PlanItem {
+	text: string
+	done: boolean
+}
+
+/**
+ * Action waiting for the user's approval
+ */
+export interface ApprovalRequest {
+	toolName: string
+	args: any
+	/** why it needs approval */
+	reason: string
+	/** error of edited arguments, null if they are valid */
+	validate?: (args: any) => string | null
+}
+
+/**
+ * `args` are the arguments to run the action with, edited by the user or not
+ */
+export type ApprovalDecision = { type: 'approve'; args: any } | { type: 'reject'; feedback: string }
+
 /**
  * Semantic update types - Panel handles i18n internally
  */
 export type PanelUpdate =
-	| { type: 'thinking'; text?: string } // text is optional, defaults to i18n thinking text
+	| { type: 'thinking'; text?: string; partial?: boolean } // text is optional, defaults to i18n thinking text; partial while streaming
 	| { type: 'input'; task: string }
 	| { type: 'question'; question: string }
 	| { type: 'userAnswer'; input: string }
 	| { type: 'retry'; current: number; max: number }
+	| { type: 'modelChange'; model: string; reason?: string } // reason: why the previous model was left
+	| { type: 'planning' }
 	| { type: 'error'; message: string; errorCode?: string; recoverySuggestion?: string }
 	| { type: 'output'; text: string }
 	| { type: 'completed' }
 	| { type: 'toolExecuting'; toolName: string; args: any }
 	| { type: 'toolCompleted'; toolName: string; args: any; result?: string; duration?: number }
+	| { type: 'usage'; usage: StepUsage; model?: string } // token usage and model of the agent step, shown on its last item
+	| { type: 'actionBlocked'; toolName: string; reason: string } // refused by a site policy
+	| { type: 'actionRejected'; toolName: string; feedback?: string } // refused by the user
 
 /**
  * Agent control panel
@@ -38,6 +68,8 @@ export class Panel {
 	#indicator: HTMLElement
 	#statusText: HTMLElement
 	#historySection: HTMLElement
+	#planSection: HTMLElement
+	#approvalSection: HTMLElement
 	#expandButton: HTMLElement
 	#pauseButton: HTMLElement
 	#stopButton: HTMLElement
@@ -54,6 +86,14 @@ export class Panel {
 	#pendingHeaderText: string | null = null
 	#isAnimating = false
 	#disposed = false
+	/** the current step is thinking text still being streamed */
+	#streaming = false
+	#plan: PlanItem[] | null = null
+	/** set while the user reviews the plan */
+	#planResolver: ((plan: PlanItem[]) => void) | null = null
+	/** set while the user approves an action */
+	#approval: { request: ApprovalRequest; resolve: (decision: ApprovalDecision) => void; editing: boolean } | null =
+		null
 
 	get wrapper(): HTMLElement {
 		return this.#wrapper
@@ -66,6 +106,8 @@ export class Panel {
 		this.#indicator = this.#wrapper.querySelector(`.${styles.indicator}`)!
 		this.#statusText = this.#wrapper.querySelector(`.${styles.statusText}`)!
 		this.#historySection = this.#wrapper.querySelector(`.${styles.historySection}`)!
+		this.#planSection = this.#wrapper.querySelector(`.${styles.planSection}`)!
+		this.#approvalSection = this.#wrapper.querySelector(`.${styles.approvalSection}`)!
 		this.#expandButton = this.#wrapper.querySelector(`.${styles.expandButton}`)!
 		this.#pauseButton = this.#wrapper.querySelector(`.${styles.pauseButton}`)!
 		this.#stopButton = this.#wrapper.querySelector(`.${styles.stopButton}`)!
@@ -121,6 +163,53 @@ export class Panel {
 		})
 	}
 
+	/**
+	 * Show the plan as a checklist, read-only
+	 */
+	showPlan(plan: PlanItem[] | null): void {
+		if (this.#disposed) return
+		this.#plan = plan ? plan.map((item) => ({ ...item })) : null
+		this.#planResolver = null
+		this.#renderPlan()
+	}
+
+	/**
+	 * Let the user edit, reorder, add and remove plan items, resolves with the plan once confirmed
+	 */
+	async reviewPlan(plan: PlanItem[]): Promise<PlanItem[]> {
+		return new Promise((resolve) => {
+			this.#plan = plan.map((item) => ({ ...item }))
+			this.#planResolver = resolve
+			this.#renderPlan()
+			this.#pendingHeaderText = this.#i18n.t('ui.panel.planReview')
+			if (!this.#isExpanded) {
+				this.#expand()
+			}
+		})
+	}
+
+	/**
+	 * Let the user approve, edit or reject an action before it runs
+	 */
+	async requestApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+		return new Promise((resolve) => {
+			this.#approval = { request, resolve, editing: false }
+			this.#renderApproval()
+			this.#pendingHeaderText = this.#i18n.t('ui.panel.approvalRequired')
+			if (!this.#isExpanded) {
+				this.#expand()
+			}
+		})
+	}
+
+	/**
+	 * Remove the approval card without a decision, e.g. when the task is stopped
+	 */
+	closeApproval(): void {
+		this.#approval = null
+		this.#renderApproval()
+	}
+
 	// ========== Public control methods ==========
 
 	show(): void {
@@ -141,6 +230,8 @@ export class Panel {
 	reset(): void {
 		if (this.#disposed) return
 		this.#state.reset()
+		this.showPlan(null)
+		this.closeApproval()
 		this.#statusText.textContent = this.#i18n.t('ui.panel.ready')
 		this.#updateStatusIndicator('thinking')
 		this.#updateHistory()
@@ -198,7 +289,23 @@ export class Panel {
 	 * Update panel with semantic data - i18n handled internally
 	 */
 	update(data: PanelUpdate): void {
+		if (data.type === 'usage') {
+			if (this.#disposed) return
+			this.#state.updateCurrentStep({ usage: data.usage, model: data.model })
+			this.#updateHistory()
+			return
+		}
+
 		const stepData = this.#toStepData(data)
+
+		// Streamed thinking text replaces itself, the final text replaces the streamed one
+		if (data.type === 'thinking' && this.#streaming) {
+			this.#streaming = !!data.partial
+			this.#updateCurrentStep(stepData)
+			return
+		}
+
+		this.#streaming = data.type === 'thinking' && !!data.partial
 		this.#updateInternal(stepData)
 	}
 
@@ -217,7 +324,7 @@ export class Panel {
 	/**
 	 * Convert semantic update to step data with i18n
 	 */
-	#toStepData(data: PanelUpdate): Omit<Step, 'id' | 'stepNumber' | 'timestamp'> {
+	#toStepData(data: Exclude<PanelUpdate, { type: 'usage' }>): Omit<Step, 'id' | 'stepNumber' | 'timestamp'> {
 		switch (data.type) {
 			case 'thinking':
 				return { type: 'thinking', displayText: data.text ?? this.#i18n.t('ui.panel.thinking') }
@@ -235,6 +342,24 @@ export class Panel {
 				}
 			case 'retry':
 				return { type: 'retry', displayText: `retry-ing (${data.current} / ${data.max})` }
+			case 'planning':
+				return { type: 'thinking', displayText: this.#i18n.t('ui.panel.planning') }
+			case 'actionRejected': {
+				let displayText = this.#i18n.t('ui.panel.actionRejected', { tool: data.toolName })
+				if (data.feedback) displayText += `\n${data.feedback}`
+				return { type: 'retry', toolName: data.toolName, displayText }
+			}
+			case 'actionBlocked':
+				return {
+					type: 'retry',
+					toolName: data.toolName,
+					displayText: this.#i18n.t('ui.panel.actionBlocked', { tool: data.toolName }),
+				}
+			case 'modelChange': {
+				let displayText = this.#i18n.t('ui.panel.modelChange', { model: data.model })
+				if (data.reason) displayText += `\n${data.reason}`
+				return { type: 'retry', displayText }
+			}
 			case 'error': {
 				// 构建错误显示内容，包含恢复建议
 				let displayText = data.message
@@ -281,6 +406,13 @@ export class Panel {
 				return this.#i18n.t('ui.tools.scrolling')
 			case 'wait':
 				return this.#i18n.t('ui.tools.waiting', { seconds: args.seconds })
+			case 'go_back':
+			case 'go_forward':
+			case 'navigate_to_url':
+			case 'reload':
+				return this.#i18n.t('ui.tools.navigating')
+			case 'extract_structured_data':
+				return this.#i18n.t('ui.tools.extracting')
 			case 'done':
 				return this.#i18n.t('ui.tools.done')
 			default:
@@ -339,6 +471,19 @@ export class Panel {
 		}
 	}
 
+	/**
+	 * Update the text of the current step in place
+	 */
+	#updateCurrentStep(stepData: Omit<Step, 'id' | 'stepNumber' | 'timestamp'>): void {
+		if (this.#disposed) return
+
+		const step = this.#state.updateCurrentStep({ displayText: stepData.displayText })
+		if (!step) return
+
+		this.#pendingHeaderText = truncate(step.displayText, 20)
+		this.#updateHistory()
+	}
+
 	/**
 	 * Toggle pause state
 	 */
@@ -469,6 +614,8 @@ export class Panel {
 		wrapper.innerHTML = `
 			<div class="${styles.background}"></div>
 			<div class="${styles.historySectionWrapper}">
+				<div class="${styles.planSection} ${styles.hidden}"></div>
+				<div class="${styles.approvalSection} ${styles.hidden}"></div>
 				<div class="${styles.historySection}">
 					${this.#createHistoryItem({
 			id: 'placeholder',
@@ -553,6 +700,215 @@ export class Panel {
 		this.#inputSection.addEventListener('click', (e) => {
 			e.stopPropagation()
 		})
+
+		// Plan editing, items are re-rendered from #plan after each change
+		this.#planSection.addEventListener('input', (e) => {
+			const target = e.target as HTMLInputElement
+			const index = Number(target.dataset.index)
+			if (this.#plan?.[index]) this.#plan[index].text = target.value
+		})
+		this.#planSection.addEventListener('click', (e) => {
+			const button = (e.target as HTMLElement).closest('button')
+			if (!button || !this.#plan || !this.#planResolver) return
+			const index = Number(button.dataset.index)
+			const plan = this.#plan
+
+			switch (button.dataset.action) {
+				case 'up':
+					if (index > 0) plan.splice(index - 1, 0, ...plan.splice(index, 1))
+					break
+				case 'down':
+					if (index < plan.length - 1) plan.splice(index + 1, 0, ...plan.splice(index, 1))
+					break
+				case 'remove':
+					plan.splice(index, 1)
+					break
+				case 'add':
+					plan.push({ text: '', done: false })
+					break
+				case 'start': {
+					const resolve = this.#planResolver
+					this.#plan = plan.filter((item) => item.text.trim())
+					this.#planResolver = null
+					this.#renderPlan()
+					resolve(this.#plan)
+					return
+				}
+			}
+			this.#renderPlan()
+		})
+
+		// Approval card
+		this.#approvalSection.addEventListener('click', (e) => {
+			const button = (e.target as HTMLElement).closest('button')
+			const approval = this.#approval
+			if (!button || !approval) return
+
+			switch (button.dataset.action) {
+				case 'edit':
+					approval.editing = true
+					this.#renderApproval()
+					return
+				case 'approve': {
+					const args = this.#getApprovalArgs()
+					if (args === undefined) return
+					this.#approval = null
+					this.#renderApproval()
+					approval.resolve({ type: 'approve', args })
+					return
+				}
+				case 'reject': {
+					const feedback = this.#approvalSection.querySelector<HTMLInputElement>('input')?.value.trim() ?? ''
+					this.#approval = null
+					this.#renderApproval()
+					approval.resolve({ type: 'reject', feedback })
+					return
+				}
+			}
+		})
+	}
+
+	/**
+	 * Arguments in the approval card, undefined after showing why they are invalid
+	 */
+	#getApprovalArgs(): any {
+		const approval = this.#approval!
+		if (!approval.editing) return approval.request.args
+
+		const textarea = this.#approvalSection.querySelector('textarea')!
+		const error = this.#approvalSection.querySelector(`.${styles.approvalError}`)!
+		let args: any
+		try {
+			args = JSON.parse(textarea.value)
+		} catch {
+			error.textContent = this.#i18n.t('ui.panel.approvalInvalidJson')
+			return undefined
+		}
+		const message = approval.request.validate?.(args)
+		if (message) {
+			error.textContent = message
+			return undefined
+		}
+		return args
+	}
+
+	#renderApproval(): void {
+		const approval = this.#approval
+		this.#approvalSection.classList.toggle(styles.hidden, !approval)
+		this.#approvalSection.replaceChildren()
+		if (!approval) return
+
+		const { request, editing } = approval
+
+		const title = document.createElement('div')
+		title.className = styles.approvalTitle
+		title.textContent = this.#i18n.t('ui.panel.approvalTitle', { tool: request.toolName })
+		const reason = document.createElement('div')
+		reason.textContent = request.reason
+		this.#approvalSection.append(title, reason)
+
+		const argsText = JSON.stringify(request.args, null, 2)
+		if (editing) {
+			const textarea = document.createElement('textarea')
+			textarea.className = styles.approvalArgs
+			textarea.value = argsText
+			textarea.rows = Math.min(argsText.split('\n').length, 6)
+			this.#approvalSection.appendChild(textarea)
+		} else {
+			const pre = document.createElement('pre')
+			pre.className = styles.approvalArgs
+			pre.textContent = argsText
+			this.#approvalSection.appendChild(pre)
+		}
+
+		const error = document.createElement('div')
+		error.className = styles.approvalError
+		const feedback = document.createElement('input')
+		feedback.type = 'text'
+		feedback.className = styles.planInput
+		feedback.placeholder = this.#i18n.t('ui.panel.approvalFeedback')
+		this.#approvalSection.append(error, feedback)
+
+		const button = (action: string, text: string) => {
+			const el = document.createElement('button')
+			el.type = 'button'
+			el.className = styles.planButton
+			el.dataset.action = action
+			el.textContent = text
+			return el
+		}
+		const actions = document.createElement('div')
+		actions.className = styles.planActions
+		actions.append(
+			button('reject', this.#i18n.t('ui.panel.approvalReject')),
+			...(editing ? [] : [button('edit', this.#i18n.t('ui.panel.approvalEdit'))]),
+			button('approve', this.#i18n.t(editing ? 'ui.panel.approvalApproveEdited' : 'ui.panel.approvalApprove'))
+		)
+		this.#approvalSection.appendChild(actions)
+	}
+
+	#renderPlan(): void {
+		const plan = this.#plan
+		this.#planSection.classList.toggle(styles.hidden, !plan)
+		this.#planSection.replaceChildren()
+		if (!plan) return
+
+		const editing = !!this.#planResolver
+		const title = document.createElement('div')
+		title.className = styles.planTitle
+		title.textContent = editing ? this.#i18n.t('ui.panel.planReview') : this.#i18n.t('ui.panel.plan')
+		this.#planSection.appendChild(title)
+
+		const button = (action: string, text: string, index: number, label = text) => {
+			const el = document.createElement('button')
+			el.type = 'button'
+			el.className = styles.planButton
+			el.dataset.action = action
+			el.dataset.index = String(index)
+			el.textContent = text
+			el.title = label
+			return el
+		}
+
+		plan.forEach((item, index) => {
+			const row = document.createElement('div')
+			row.className = `${styles.planItem} ${item.done ? styles.planItemDone : ''}`
+
+			const check = document.createElement('span')
+			check.textContent = item.done ? '☑' : '☐'
+			row.appendChild(check)
+
+			if (editing) {
+				const input = document.createElement('input')
+				input.type = 'text'
+				input.className = styles.planInput
+				input.value = item.text
+				input.placeholder = this.#i18n.t('ui.panel.planNewItem')
+				input.dataset.index = String(index)
+				row.append(
+					input,
+					button('up', '↑', index, this.#i18n.t('ui.panel.moveUp')),
+					button('down', '↓', index, this.#i18n.t('ui.panel.moveDown')),
+					button('remove', '✕', index, this.#i18n.t('ui.panel.remove'))
+				)
+			} else {
+				const text = document.createElement('span')
+				text.textContent = `${index + 1}. ${item.text}`
+				row.appendChild(text)
+			}
+
+			this.#planSection.appendChild(row)
+		})
+
+		if (editing) {
+			const actions = document.createElement('div')
+			actions.className = styles.planActions
+			actions.append(
+				button('add', this.#i18n.t('ui.panel.planAdd'), -1),
+				button('start', this.#i18n.t('ui.panel.planStart'), -1)
+			)
+			this.#planSection.appendChild(actions)
+		}
 	}
 
 	#toggle(): void {
@@ -715,11 +1071,19 @@ export class Panel {
 		}
 
 		const durationText = step.duration ? ` · ${step.duration}ms` : ''
-		const stepLabel = this.#i18n.t('ui.panel.step', {
+		let stepLabel = this.#i18n.t('ui.panel.step', {
 			number: step.stepNumber.toString(),
 			time,
 			duration: durationText || '', // Explicitly pass empty string to replace template
 		})
+		if (step.usage) {
+			stepLabel += this.#i18n.t(step.usage.cachedTokens ? 'ui.panel.usageCached' : 'ui.panel.usage', {
+				prompt: step.usage.promptTokens.toString(),
+				cached: (step.usage.cachedTokens ?? 0).toString(),
+				completion: step.usage.completionTokens.toString(),
+			})
+		}
+		if (step.model) stepLabel += this.#i18n.t('ui.panel.model', { model: step.model })
 
 		return `
 			<div class="${styles.historyItem} ${typeClass}">
@@ -16,6 +16,7 @@ export class SimulatorMask {
 	})
 
 	#cursor = document.createElement('div')
+	#highlight = document.createElement('div')
 
 	#currentCursorX = 0
 	#currentCursorY = 0
@@ -61,6 +62,9 @@ export class SimulatorMask {
 			e.preventDefault()
 		})
 
+		this.#highlight.className = styles.highlight
+		this.wrapper.appendChild(this.#highlight)
+
 		// Create AI cursor
 		this.#createCursor()
 		// this.show()
@@ -139,6 +143,23 @@ export class SimulatorMask {
 		this.#cursor.classList.add(cursorStyles.clicking)
 	}
 
+	/**
+	 * Outline an element in the viewport, e.g. the target of an action waiting for approval. Null removes it.
+	 */
+	highlight(rect: DOMRect | null) {
+		if (!rect) {
+			this.#highlight.style.display = 'none'
+			return
+		}
+		Object.assign(this.#highlight.style, {
+			display: 'block',
+			left: `${rect.left - 4}px`,
+			top: `${rect.top - 4}px`,
+			width: `${rect.width + 8}px`,
+			height: `${rect.height + 8}px`,
+		})
+	}
+
 	show() {
 		this.motion.start()
 		this.motion.fadeIn()
@@ -159,6 +180,7 @@ export class SimulatorMask {
 		this.motion.pause()
 
 		this.#cursor.classList.remove(cursorStyles.clicking)
+		this.highlight(null)
 
 		setTimeout(() => {
 			this.wrapper.style.display = 'none'
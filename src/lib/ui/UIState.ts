@@ -2,6 +2,15 @@
  * Agent execution state management
  */
 
+/**
+ * Tokens an agent step took, `cachedTokens` are the part of `promptTokens` read from the prompt cache
+ */
+export interface StepUsage {
+	promptTokens: number
+	completionTokens: number
+	cachedTokens?: number
+}
+
 export interface Step {
 	id: string
 	stepNumber: number
@@ -16,6 +25,9 @@ export interface Step {
 	// Display data
 	displayText: string
 	duration?: number
+	usage?: StepUsage
+	/** model that answered the agent step */
+	model?: string
 }
 
 export type AgentStatus = 'idle' | 'running' | 'paused' | 'completed' | 'error'
@@ -19,6 +19,29 @@ const enUS = {
 			expand: 'Expand history',
 			collapse: 'Collapse history',
 			step: 'Step {{number}} · {{time}}{{duration}}',
+			usage: ' · {{prompt}} in / {{completion}} out tokens',
+			usageCached: ' · {{prompt}} in ({{cached}} cached) / {{completion}} out tokens',
+			model: ' · {{model}}',
+			modelChange: '🔀 Answering with {{model}}',
+			actionBlocked: '🚫 {{tool}} refused by the site policy',
+			actionRejected: '✋ {{tool}} rejected by the user',
+			approvalRequired: 'Waiting for your approval',
+			approvalTitle: '⚠️ Approve {{tool}}?',
+			approvalApprove: 'Approve',
+			approvalApproveEdited: 'Approve edited',
+			approvalEdit: 'Edit',
+			approvalReject: 'Reject',
+			approvalFeedback: 'Why reject (optional), told to the agent',
+			approvalInvalidJson: 'Arguments are not valid JSON',
+			planning: 'Planning the task...',
+			plan: 'Plan',
+			planReview: 'Edit or reorder the plan, then start',
+			planStart: 'Start',
+			planAdd: '+ Add item',
+			planNewItem: 'New item',
+			moveUp: 'Move up',
+			moveDown: 'Move down',
+			remove: 'Remove',
 		},
 		tools: {
 			clicking: 'Clicking element [{{index}}]...',
@@ -26,6 +49,8 @@ const enUS = {
 			selecting: 'Selecting option "{{text}}"...',
 			scrolling: 'Scrolling page...',
 			waiting: 'Waiting {{seconds}} seconds...',
+			navigating: 'Navigating...',
+			extracting: 'Extracting page data...',
 			done: 'Task done',
 			clicked: '🖱️ Clicked element [{{index}}]',
 			inputted: '⌨️ Inputted text "{{text}}"',
@@ -69,6 +94,29 @@ const zhCN = {
 			expand: '展开历史',
 			collapse: '收起历史',
 			step: '步骤 {{number}} · {{time}}{{duration}}',
+			usage: ' · 输入 {{prompt}} / 输出 {{completion}} tokens',
+			usageCached: ' · 输入 {{prompt}}（缓存命中 {{cached}}）/ 输出 {{completion}} tokens',
+			model: ' · 模型 {{model}}',
+			modelChange: '🔀 切换到模型 {{model}}',
+			actionBlocked: '🚫 站点策略禁止执行 {{tool}}',
+			actionRejected: '✋ 已拒绝执行 {{tool}}',
+			approvalRequired: '等待确认操作',
+			approvalTitle: '⚠️ 是否允许执行 {{tool}}？',
+			approvalApprove: '允许',
+			approvalApproveEdited: '按修改后执行',
+			approvalEdit: '修改',
+			approvalReject: '拒绝',
+			approvalFeedback: '拒绝原因（可选），会告知 Agent',
+			approvalInvalidJson: '参数不是有效的 JSON',
+			planning: '正在制定计划...',
+			plan: '计划',
+			planReview: '可编辑或调整计划顺序，确认后开始执行',
+			planStart: '开始执行',
+			planAdd: '+ 添加一项',
+			planNewItem: '新的一项',
+			moveUp: '上移',
+			moveDown: '下移',
+			remove: '删除',
 		},
 		tools: {
 			clicking: '正在点击元素 [{{index}}]...',
@@ -76,6 +124,8 @@ const zhCN = {
 			selecting: '正在选择选项 "{{text}}"...',
 			scrolling: '正在滚动页面...',
 			waiting: '等待 {{seconds}} 秒...',
+			navigating: '正在跳转页面...',
+			extracting: '正在提取页面数据...',
 			done: '结束任务',
 			clicked: '🖱️ 已点击元素 [{{index}}]',
 			inputted: '⌨️ 已输入文本 "{{text}}"',
@@ -1,4 +1,11 @@
-export { Panel, type PanelConfig, type PanelUpdate } from './Panel'
+export {
+	Panel,
+	type ApprovalDecision,
+	type ApprovalRequest,
+	type PanelConfig,
+	type PanelUpdate,
+	type PlanItem,
+} from './Panel'
 export { SimulatorMask } from './SimulatorMask'
-export { UIState, type Step, type AgentStatus } from './UIState'
+export { UIState, type Step, type StepUsage, type AgentStatus } from './UIState'
 export { I18n, type SupportedLanguage, type TranslationKey } from './i18n'
@@ -1,27 +1,96 @@
 // Page Agent Options Page Logic
 
-import { ALL_TOOLS, DEFAULT_CONFIG, type ExtensionConfig } from '../lib/config'
-import { getConfig, saveConfig, resetConfig } from '../lib/storage'
+import { ALL_TOOLS, DEFAULT_CONFIG, PROVIDER_BASE_URLS, type Attachment, type ExtensionConfig, type FallbackModel, type LLMConfig, type PrivacyConfig, type Secret } from '../lib/config'
+import type { SiteAccess, SitePolicy } from '../lib/page-agent/policy'
+import { getConfig, saveConfig, resetConfig, getAttachments, saveAttachments, getSecrets, saveSecrets, getRuns, deleteRun, clearRuns, getMacros, saveMacros, type RunRecord } from '../lib/storage'
+import { macroStepsFromHistory, type Macro } from '../lib/page-agent/macro'
+import type { LLMProvider } from '../lib/page-agent/llms'
+import type { RedactionDetector } from '../lib/page-agent/redaction'
+import { ANTHROPIC_VERSION } from '../lib/page-agent/llms/constants'
 import { modelPatch } from '../lib/page-agent/llms/utils'
 
+const BASE_URL_PLACEHOLDERS: Record<LLMProvider, string> = {
+    openai: 'https://api.openai.com/v1',
+    anthropic: PROVIDER_BASE_URLS.anthropic,
+    gemini: PROVIDER_BASE_URLS.gemini,
+    ollama: PROVIDER_BASE_URLS.ollama,
+}
+
 // DOM Elements
 const elements = {
     // LLM Config
+    provider: document.getElementById('provider') as HTMLSelectElement,
     baseUrl: document.getElementById('baseUrl') as HTMLInputElement,
     apiKey: document.getElementById('apiKey') as HTMLInputElement,
     model: document.getElementById('model') as HTMLInputElement,
     temperature: document.getElementById('temperature') as HTMLInputElement,
     temperatureValue: document.getElementById('temperatureValue') as HTMLSpanElement,
     maxTokens: document.getElementById('maxTokens') as HTMLInputElement,
+    maxContextTokens: document.getElementById('maxContextTokens') as HTMLInputElement,
     maxRetries: document.getElementById('maxRetries') as HTMLInputElement,
+    vision: document.getElementById('vision') as HTMLSelectElement,
+    stream: document.getElementById('stream') as HTMLSelectElement,
+    executorProvider: document.getElementById('executorProvider') as HTMLSelectElement,
+    executorModel: document.getElementById('executorModel') as HTMLInputElement,
+    executorBaseUrl: document.getElementById('executorBaseUrl') as HTMLInputElement,
+    executorApiKey: document.getElementById('executorApiKey') as HTMLInputElement,
+    fallbackProvider: document.getElementById('fallbackProvider') as HTMLSelectElement,
+    fallbackModel: document.getElementById('fallbackModel') as HTMLInputElement,
+    fallbackBaseUrl: document.getElementById('fallbackBaseUrl') as HTMLInputElement,
+    fallbackApiKey: document.getElementById('fallbackApiKey') as HTMLInputElement,
+    addFallbackBtn: document.getElementById('addFallbackBtn') as HTMLButtonElement,
+    fallbackList: document.getElementById('fallbackList') as HTMLDivElement,
     toggleApiKey: document.getElementById('toggleApiKey') as HTMLButtonElement,
 
     // Tools
     toolsGrid: document.getElementById('toolsGrid') as HTMLDivElement,
 
+    // Limits
+    maxSteps: document.getElementById('maxSteps') as HTMLInputElement,
+    maxTotalTokens: document.getElementById('maxTotalTokens') as HTMLInputElement,
+    maxDuration: document.getElementById('maxDuration') as HTMLInputElement,
+
     // UI Config
     language: document.getElementById('language') as HTMLSelectElement,
     interactionMode: document.getElementById('interactionMode') as HTMLSelectElement,
+    preventNewPage: document.getElementById('preventNewPage') as HTMLSelectElement,
+    planning: document.getElementById('planning') as HTMLSelectElement,
+    approval: document.getElementById('approval') as HTMLSelectElement,
+
+    // Privacy
+    redactDetectors: document.getElementById('redactDetectors') as HTMLDivElement,
+    redactPatterns: document.getElementById('redactPatterns') as HTMLTextAreaElement,
+
+    // Site Policies
+    policyPattern: document.getElementById('policyPattern') as HTMLInputElement,
+    policyAccess: document.getElementById('policyAccess') as HTMLSelectElement,
+    policyActions: document.getElementById('policyActions') as HTMLInputElement,
+    policyElements: document.getElementById('policyElements') as HTMLTextAreaElement,
+    addPolicyBtn: document.getElementById('addPolicyBtn') as HTMLButtonElement,
+    policyList: document.getElementById('policyList') as HTMLDivElement,
+
+    // Attachments
+    attachmentName: document.getElementById('attachmentName') as HTMLInputElement,
+    attachmentPath: document.getElementById('attachmentPath') as HTMLInputElement,
+    attachmentDescription: document.getElementById('attachmentDescription') as HTMLInputElement,
+    addAttachmentBtn: document.getElementById('addAttachmentBtn') as HTMLButtonElement,
+    attachmentList: document.getElementById('attachmentList') as HTMLDivElement,
+
+    // Secrets
+    secretName: document.getElementById('secretName') as HTMLInputElement,
+    secretValue: document.getElementById('secretValue') as HTMLInputElement,
+    secretDescription: document.getElementById('secretDescription') as HTMLInputElement,
+    addSecretBtn: document.getElementById('addSecretBtn') as HTMLButtonElement,
+    secretList: document.getElementById('secretList') as HTMLDivElement,
+
+    // Macros
+    macroList: document.getElementById('macroList') as HTMLDivElement,
+
+    // Run History
+    refreshRunsBtn: document.getElementById('refreshRunsBtn') as HTMLButtonElement,
+    exportRunsBtn: document.getElementById('exportRunsBtn') as HTMLButtonElement,
+    clearRunsBtn: document.getElementById('clearRunsBtn') as HTMLButtonElement,
+    runList: document.getElementById('runList') as HTMLDivElement,
 
     // Footer
     statusIndicator: document.getElementById('statusIndicator') as HTMLSpanElement,
@@ -41,12 +110,25 @@ const elements = {
 }
 
 let currentConfig: ExtensionConfig
+let attachments: Attachment[] = []
+let secrets: Secret[] = []
+// saved with the rest of the form
+let fallbacks: FallbackModel[] = []
+let policies: SitePolicy[] = []
+let macros: Macro[] = []
 
 // Initialize page
 async function init() {
     currentConfig = await getConfig()
     populateForm(currentConfig)
     renderTools()
+    attachments = await getAttachments()
+    renderAttachments()
+    secrets = await getSecrets()
+    renderSecrets()
+    macros = await getMacros()
+    renderMacros()
+    await refreshRuns()
     setupEventListeners()
     updateStatus('已加载配置', 'success')
 }
@@ -54,17 +136,160 @@ async function init() {
 // Populate form with config values
 function populateForm(config: ExtensionConfig) {
     // LLM Config
-    elements.baseUrl.value = config.llm.baseURL === DEFAULT_CONFIG.llm.baseURL ? '' : config.llm.baseURL
+    elements.provider.value = config.llm.provider
+    elements.baseUrl.value = config.llm.baseURL === PROVIDER_BASE_URLS[config.llm.provider] ? '' : config.llm.baseURL
+    elements.baseUrl.placeholder = BASE_URL_PLACEHOLDERS[config.llm.provider]
     elements.apiKey.value = config.llm.apiKey === DEFAULT_CONFIG.llm.apiKey ? '' : config.llm.apiKey
     elements.model.value = config.llm.model === DEFAULT_CONFIG.llm.model ? '' : config.llm.model
     elements.temperature.value = config.llm.temperature.toString()
     elements.temperatureValue.textContent = config.llm.temperature.toString()
     elements.maxTokens.value = config.llm.maxTokens.toString()
+    elements.maxContextTokens.value = String(config.llm.maxContextTokens ?? 0)
     elements.maxRetries.value = config.llm.maxRetries.toString()
+    elements.vision.value = String(config.llm.vision ?? false)
+    elements.stream.value = String(config.llm.stream ?? false)
+    elements.executorProvider.value = config.llm.executor?.provider ?? config.llm.provider
+    elements.executorModel.value = config.llm.executor?.model ?? ''
+    elements.executorBaseUrl.value = config.llm.executor?.baseURL ?? ''
+    elements.executorApiKey.value = config.llm.executor?.apiKey ?? ''
+    fallbacks = [...(config.llm.fallbacks ?? [])]
+    renderFallbacks()
+
+    // Limits
+    elements.maxSteps.value = config.limits.maxSteps.toString()
+    elements.maxTotalTokens.value = config.limits.maxTotalTokens.toString()
+    elements.maxDuration.value = config.limits.maxDuration.toString()
 
     // UI Config
     elements.language.value = config.ui.language
     elements.interactionMode.value = config.ui.interactionMode || 'debugger'
+    elements.preventNewPage.value = String(config.ui.preventNewPage ?? false)
+    elements.planning.value = config.ui.planning ?? 'off'
+    elements.approval.value = config.ui.approval ?? 'off'
+
+    // Privacy
+    elements.redactDetectors.querySelectorAll<HTMLInputElement>('.tool-checkbox').forEach(checkbox => {
+        checkbox.checked = config.privacy.redact.includes(checkbox.dataset.detector as RedactionDetector)
+    })
+    elements.redactPatterns.value = config.privacy.customPatterns
+        .map(({ name, pattern }) => `${name}: ${pattern}`)
+        .join('\n')
+
+    // Site Policies
+    policies = [...config.policies]
+    renderPolicies()
+}
+
+// Parse custom redaction rules, one `name: pattern` per line
+function parseRedactPatterns(text: string): PrivacyConfig['customPatterns'] {
+    return text
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean)
+        .map(line => {
+            const separator = line.indexOf(':')
+            return separator > 0
+                ? { name: line.slice(0, separator).trim(), pattern: line.slice(separator + 1).trim() }
+                : { name: 'custom', pattern: line }
+        })
+}
+
+const ACCESS_LABELS: Record<SiteAccess, string> = {
+    allow: '允许操作',
+    readonly: '只读',
+    block: '禁止运行',
+}
+
+// Render site policies list
+function renderPolicies() {
+    elements.policyList.innerHTML = ''
+
+    if (policies.length === 0) {
+        elements.policyList.innerHTML = '<div class="list-placeholder">暂无站点策略</div>'
+        return
+    }
+
+    policies.forEach((policy, index) => {
+        const item = document.createElement('div')
+        item.className = 'list-item'
+
+        const info = document.createElement('div')
+        info.className = 'list-item-info'
+        const title = document.createElement('div')
+        title.className = 'list-item-title'
+        title.textContent = `${index + 1}. ${policy.pattern}`
+        const desc = document.createElement('div')
+        desc.className = 'list-item-desc'
+        desc.textContent = [
+            ACCESS_LABELS[policy.access],
+            policy.forbiddenActions?.length && `禁止工具: ${policy.forbiddenActions.join(', ')}`,
+            policy.forbiddenElements?.length && `禁止元素: ${policy.forbiddenElements.join(', ')}`,
+        ].filter(Boolean).join(' · ')
+        info.append(title, desc)
+
+        const deleteBtn = document.createElement('button')
+        deleteBtn.type = 'button'
+        deleteBtn.className = 'btn btn-sm btn-danger'
+        deleteBtn.textContent = '删除'
+        deleteBtn.addEventListener('click', () => {
+            policies.splice(index, 1)
+            renderPolicies()
+            updateStatus('站点策略已删除，保存后生效', 'warning')
+        })
+
+        item.append(info, deleteBtn)
+        elements.policyList.appendChild(item)
+    })
+}
+
+// Add site policy, saved with the form
+function addPolicy() {
+    const pattern = elements.policyPattern.value.trim()
+    if (!pattern) {
+        updateStatus('请填写网址规则', 'warning')
+        return
+    }
+
+    const forbiddenActions = elements.policyActions.value
+        .split(/[,，]/)
+        .map(action => action.trim())
+        .filter(Boolean)
+    const unknown = forbiddenActions.find(action => !ALL_TOOLS.some(tool => tool.id === action))
+    if (unknown) {
+        updateStatus(`未知的工具「${unknown}」`, 'warning')
+        return
+    }
+
+    const forbiddenElements = elements.policyElements.value
+        .split('\n')
+        .map(rule => rule.trim())
+        .filter(Boolean)
+    const invalid = forbiddenElements.find(rule => {
+        if (rule.startsWith('text:')) return false
+        try {
+            document.createDocumentFragment().querySelector(rule)
+            return false
+        } catch {
+            return true
+        }
+    })
+    if (invalid) {
+        updateStatus(`「${invalid}」不是有效的 CSS 选择器`, 'warning')
+        return
+    }
+
+    policies.push({
+        pattern,
+        access: elements.policyAccess.value as SiteAccess,
+        ...(forbiddenActions.length > 0 && { forbiddenActions }),
+        ...(forbiddenElements.length > 0 && { forbiddenElements }),
+    })
+    elements.policyPattern.value = ''
+    elements.policyAccess.value = 'allow'
+    elements.policyActions.value = ''
+    elements.policyElements.value = ''
+    renderPolicies()
+    updateStatus('站点策略已添加，保存后生效', 'warning')
 }
 
 // Render tools grid
@@ -89,6 +314,235 @@ function renderTools() {
     })
 }
 
+// Render fallback models list
+function renderFallbacks() {
+    elements.fallbackList.innerHTML = ''
+
+    if (fallbacks.length === 0) {
+        elements.fallbackList.innerHTML = '<div class="list-placeholder">暂无备用模型</div>'
+        return
+    }
+
+    fallbacks.forEach((fallback, index) => {
+        const item = document.createElement('div')
+        item.className = 'list-item'
+
+        const info = document.createElement('div')
+        info.className = 'list-item-info'
+        const title = document.createElement('div')
+        title.className = 'list-item-title'
+        title.textContent = `${index + 1}. ${fallback.model}`
+        const desc = document.createElement('div')
+        desc.className = 'list-item-desc'
+        desc.textContent = [fallback.provider, fallback.baseURL || '沿用主模型地址'].join(' · ')
+        info.append(title, desc)
+
+        const deleteBtn = document.createElement('button')
+        deleteBtn.type = 'button'
+        deleteBtn.className = 'btn btn-sm btn-danger'
+        deleteBtn.textContent = '删除'
+        deleteBtn.addEventListener('click', () => {
+            fallbacks.splice(index, 1)
+            renderFallbacks()
+            updateStatus('备用模型已删除，保存后生效', 'warning')
+        })
+
+        item.append(info, deleteBtn)
+        elements.fallbackList.appendChild(item)
+    })
+}
+
+// Add fallback model, saved with the form
+function addFallback() {
+    const model = elements.fallbackModel.value.trim()
+    if (!model) {
+        updateStatus('请填写备用模型名称', 'warning')
+        return
+    }
+
+    fallbacks.push({
+        provider: elements.fallbackProvider.value as LLMProvider,
+        baseURL: elements.fallbackBaseUrl.value.trim(),
+        apiKey: elements.fallbackApiKey.value.trim(),
+        model,
+    })
+    elements.fallbackModel.value = ''
+    elements.fallbackBaseUrl.value = ''
+    elements.fallbackApiKey.value = ''
+    renderFallbacks()
+    updateStatus('备用模型已添加，保存后生效', 'warning')
+}
+
+// Render attachments list
+function renderAttachments() {
+    elements.attachmentList.innerHTML = ''
+
+    if (attachments.length === 0) {
+        elements.attachmentList.innerHTML = '<div class="list-placeholder">暂无附件</div>'
+        return
+    }
+
+    attachments.forEach(attachment => {
+        const item = document.createElement('div')
+        item.className = 'list-item'
+
+        const info = document.createElement('div')
+        info.className = 'list-item-info'
+        const title = document.createElement('div')
+        title.className = 'list-item-title'
+        title.textContent = attachment.name
+        const desc = document.createElement('div')
+        desc.className = 'list-item-desc'
+        desc.textContent = attachment.description ? `${attachment.description} · ${attachment.path}` : attachment.path
+        info.append(title, desc)
+
+        const deleteBtn = document.createElement('button')
+        deleteBtn.type = 'button'
+        deleteBtn.className = 'btn btn-sm btn-danger'
+        deleteBtn.textContent = '删除'
+        deleteBtn.addEventListener('click', () => removeAttachment(attachment.id))
+
+        item.append(info, deleteBtn)
+        elements.attachmentList.appendChild(item)
+    })
+}
+
+// Add attachment, saved immediately
+async function addAttachment() {
+    const name = elements.attachmentName.value.trim()
+    const path = elements.attachmentPath.value.trim()
+    const description = elements.attachmentDescription.value.trim()
+
+    if (!name || !path) {
+        updateStatus('请填写附件名称和路径', 'warning')
+        return
+    }
+    if (attachments.some(a => a.name === name)) {
+        updateStatus('附件名称已存在', 'warning')
+        return
+    }
+
+    attachments.push({
+        id: Math.random().toString(36).substring(2, 11),
+        name,
+        path,
+        description: description || undefined,
+    })
+
+    try {
+        await saveAttachments(attachments)
+        elements.attachmentName.value = ''
+        elements.attachmentPath.value = ''
+        elements.attachmentDescription.value = ''
+        renderAttachments()
+        updateStatus('附件已添加', 'success')
+    } catch (error) {
+        console.error('Failed to save attachments:', error)
+        attachments.pop()
+        updateStatus('保存附件失败', 'error')
+    }
+}
+
+// Remove attachment, saved immediately
+async function removeAttachment(id: string) {
+    attachments = attachments.filter(a => a.id !== id)
+    try {
+        await saveAttachments(attachments)
+        renderAttachments()
+        updateStatus('附件已删除', 'success')
+    } catch (error) {
+        console.error('Failed to save attachments:', error)
+        updateStatus('删除附件失败', 'error')
+    }
+}
+
+// Render secrets list, values are never shown
+function renderSecrets() {
+    elements.secretList.innerHTML = ''
+
+    if (secrets.length === 0) {
+        elements.secretList.innerHTML = '<div class="list-placeholder">暂无密钥</div>'
+        return
+    }
+
+    secrets.forEach(secret => {
+        const item = document.createElement('div')
+        item.className = 'list-item'
+
+        const info = document.createElement('div')
+        info.className = 'list-item-info'
+        const title = document.createElement('div')
+        title.className = 'list-item-title'
+        title.textContent = `{{secret:${secret.name}}}`
+        const desc = document.createElement('div')
+        desc.className = 'list-item-desc'
+        desc.textContent = secret.description ? `${secret.description} · ••••••` : '••••••'
+        info.append(title, desc)
+
+        const deleteBtn = document.createElement('button')
+        deleteBtn.type = 'button'
+        deleteBtn.className = 'btn btn-sm btn-danger'
+        deleteBtn.textContent = '删除'
+        deleteBtn.addEventListener('click', () => removeSecret(secret.id))
+
+        item.append(info, deleteBtn)
+        elements.secretList.appendChild(item)
+    })
+}
+
+// Add secret, saved immediately. A secret with the same name is replaced
+async function addSecret() {
+    const name = elements.secretName.value.trim()
+    const value = elements.secretValue.value
+    const description = elements.secretDescription.value.trim()
+
+    if (!name || !value) {
+        updateStatus('请填写密钥名称和值', 'warning')
+        return
+    }
+    if (!/^[\w.-]+$/.test(name)) {
+        updateStatus('密钥名称只能包含字母、数字、_、- 和 .', 'warning')
+        return
+    }
+
+    const previous = secrets
+    secrets = [
+        ...secrets.filter(s => s.name !== name),
+        {
+            id: Math.random().toString(36).substring(2, 11),
+            name,
+            value,
+            description: description || undefined,
+        },
+    ]
+
+    try {
+        await saveSecrets(secrets)
+        elements.secretName.value = ''
+        elements.secretValue.value = ''
+        elements.secretDescription.value = ''
+        renderSecrets()
+        updateStatus(previous.length === secrets.length ? '密钥已更新' : '密钥已添加', 'success')
+    } catch (error) {
+        console.error('Failed to save secrets:', error)
+        secrets = previous
+        updateStatus('保存密钥失败', 'error')
+    }
+}
+
+// Remove secret, saved immediately
+async function removeSecret(id: string) {
+    secrets = secrets.filter(s => s.id !== id)
+    try {
+        await saveSecrets(secrets)
+        renderSecrets()
+        updateStatus('密钥已删除', 'success')
+    } catch (error) {
+        console.error('Failed to save secrets:', error)
+        updateStatus('删除密钥失败', 'error')
+    }
+}
+
 // Setup event listeners
 function setupEventListeners() {
     // Temperature slider
@@ -96,6 +550,11 @@ function setupEventListeners() {
         elements.temperatureValue.textContent = elements.temperature.value
     })
 
+    // Provider changes the default endpoint
+    elements.provider.addEventListener('change', () => {
+        elements.baseUrl.placeholder = BASE_URL_PLACEHOLDERS[elements.provider.value as LLMProvider]
+    })
+
     // Toggle API key visibility
     elements.toggleApiKey.addEventListener('click', () => {
         const isPassword = elements.apiKey.type === 'password'
@@ -126,6 +585,23 @@ function setupEventListeners() {
         }
     })
 
+    // Attachments
+    elements.addAttachmentBtn.addEventListener('click', addAttachment)
+
+    // Secrets
+    elements.addSecretBtn.addEventListener('click', addSecret)
+
+    // Fallback models
+    elements.addFallbackBtn.addEventListener('click', addFallback)
+
+    // Site Policies
+    elements.addPolicyBtn.addEventListener('click', addPolicy)
+
+    // Run History
+    elements.refreshRunsBtn.addEventListener('click', refreshRuns)
+    elements.exportRunsBtn.addEventListener('click', exportRuns)
+    elements.clearRunsBtn.addEventListener('click', handleClearRuns)
+
     // Save button
     elements.saveBtn.addEventListener('click', handleSave)
 
@@ -147,18 +623,46 @@ function setupEventListeners() {
 function getFormValues(): ExtensionConfig {
     return {
         llm: {
-            baseURL: elements.baseUrl.value.trim() || DEFAULT_CONFIG.llm.baseURL,
+            provider: elements.provider.value as LLMProvider,
+            baseURL: elements.baseUrl.value.trim() || PROVIDER_BASE_URLS[elements.provider.value as LLMProvider],
             apiKey: elements.apiKey.value.trim() || DEFAULT_CONFIG.llm.apiKey,
             model: elements.model.value.trim() || DEFAULT_CONFIG.llm.model,
             temperature: parseFloat(elements.temperature.value),
             maxTokens: parseInt(elements.maxTokens.value, 10),
+            maxContextTokens: parseInt(elements.maxContextTokens.value, 10) || 0,
             maxRetries: parseInt(elements.maxRetries.value, 10),
+            vision: elements.vision.value === 'true',
+            stream: elements.stream.value === 'true',
+            fallbacks,
+            executor: elements.executorModel.value.trim()
+                ? {
+                    provider: elements.executorProvider.value as LLMProvider,
+                    baseURL: elements.executorBaseUrl.value.trim(),
+                    apiKey: elements.executorApiKey.value.trim(),
+                    model: elements.executorModel.value.trim(),
+                }
+                : null,
         },
         tools: currentConfig.tools,
+        limits: {
+            maxSteps: parseInt(elements.maxSteps.value, 10) || DEFAULT_CONFIG.limits.maxSteps,
+            maxTotalTokens: parseInt(elements.maxTotalTokens.value, 10) || 0,
+            maxDuration: parseInt(elements.maxDuration.value, 10) || 0,
+        },
         ui: {
             language: elements.language.value as 'zh-CN' | 'en-US',
             interactionMode: elements.interactionMode.value as 'simulated' | 'debugger',
+            preventNewPage: elements.preventNewPage.value === 'true',
+            planning: elements.planning.value as 'off' | 'auto' | 'review',
+            approval: elements.approval.value as 'off' | 'rules' | 'llm',
+        },
+        privacy: {
+            redact: Array.from(elements.redactDetectors.querySelectorAll<HTMLInputElement>('.tool-checkbox'))
+                .filter(checkbox => checkbox.checked)
+                .map(checkbox => checkbox.dataset.detector as RedactionDetector),
+            customPatterns: parseRedactPatterns(elements.redactPatterns.value),
         },
+        policies,
     }
 }
 
@@ -166,6 +670,20 @@ function getFormValues(): ExtensionConfig {
 async function handleSave() {
     try {
         const config = getFormValues()
+
+        const invalid = config.privacy.customPatterns.find(({ pattern }) => {
+            try {
+                new RegExp(pattern)
+                return false
+            } catch {
+                return true
+            }
+        })
+        if (invalid) {
+            updateStatus(`自定义脱敏规则「${invalid.name}」不是有效的正则表达式`, 'error')
+            return
+        }
+
         await saveConfig(config)
         currentConfig = config
         updateStatus('设置已保存', 'success')
@@ -224,18 +742,11 @@ async function testConnection() {
 
     try {
         // Simple chat completion request
-        const response = await fetch(`${config.baseURL}/chat/completions`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${config.apiKey}`
-            },
-            body: JSON.stringify({
-                model: config.model,
-                messages: [{ role: 'user', content: 'Hi' }],
-                max_tokens: 5,
-                temperature: 0.1
-            })
+        const response = await fetchTestRequest(config, {
+            model: config.model,
+            messages: [{ role: 'user', content: 'Hi' }],
+            max_tokens: 5,
+            temperature: 0.1
         })
 
         if (!response.ok) {
@@ -269,6 +780,101 @@ async function testConnection() {
     }
 }
 
+/**
+ * Send a test request written in the OpenAI format, converted to the API format of the provider
+ */
+async function fetchTestRequest(config: LLMConfig, body: Record<string, any>): Promise<Response> {
+    const functions: any[] = (body.tools ?? []).map((tool: any) => tool.function)
+
+    switch (config.provider) {
+        case 'anthropic':
+            return fetch(`${config.baseURL}/messages`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'x-api-key': config.apiKey,
+                    'anthropic-version': ANTHROPIC_VERSION,
+                    // the options page calls the API directly, not through the background proxy
+                    'anthropic-dangerous-direct-browser-access': 'true',
+                },
+                body: JSON.stringify({
+                    model: body.model,
+                    messages: body.messages,
+                    max_tokens: body.max_tokens,
+                    temperature: body.temperature,
+                    ...(functions.length && {
+                        tools: functions.map((fn) => ({ name: fn.name, description: fn.description, input_schema: fn.parameters })),
+                        tool_choice: { type: 'any' },
+                    }),
+                })
+            })
+
+        case 'gemini':
+            return fetch(`${config.baseURL}/models/${config.model}:generateContent`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'x-goog-api-key': config.apiKey,
+                },
+                body: JSON.stringify({
+                    contents: body.messages.map((m: any) => ({ role: 'user', parts: [{ text: m.content }] })),
+                    generationConfig: { maxOutputTokens: body.max_tokens, temperature: body.temperature },
+                    ...(functions.length && {
+                        tools: [{ functionDeclarations: functions }],
+                        toolConfig: { functionCallingConfig: { mode: 'ANY' } },
+                    }),
+                })
+            })
+
+        case 'ollama':
+            return fetch(`${config.baseURL}/api/chat`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    model: body.model,
+                    messages: body.messages,
+                    stream: false,
+                    options: { num_predict: body.max_tokens, temperature: body.temperature },
+                    ...(body.tools && { tools: body.tools }),
+                })
+            })
+
+        default:
+            return fetch(`${config.baseURL}/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${config.apiKey}`
+                },
+                body: JSON.stringify(body)
+            })
+    }
+}
+
+/**
+ * Tool call and text of a test response, in the API format of the provider
+ */
+function readTestResponse(config: LLMConfig, data: any): { toolCall: unknown; content?: string } {
+    switch (config.provider) {
+        case 'anthropic':
+            return {
+                toolCall: data.content?.find((block: any) => block.type === 'tool_use'),
+                content: data.content?.find((block: any) => block.type === 'text')?.text,
+            }
+        case 'gemini': {
+            const parts: any[] = data.candidates?.[0]?.content?.parts ?? []
+            return {
+                toolCall: parts.find((part) => part.functionCall)?.functionCall,
+                content: parts.find((part) => part.text)?.text,
+            }
+        }
+        case 'ollama':
+            return { toolCall: data.message?.tool_calls?.[0], content: data.message?.content }
+        default:
+            return { toolCall: data.choices?.[0]?.message?.tool_calls?.[0], content: data.choices?.[0]?.message?.content }
+    }
+}
+
 // Test tool use capability
 async function testToolUse() {
     const config = getFormValues().llm
@@ -301,26 +907,21 @@ async function testToolUse() {
             }
         ]
 
-        // Apply modelPatch to make test consistent with real execution
-        const requestBody = modelPatch({
+        const requestBody = {
             model: config.model,
             messages: [{ role: 'user', content: '北京天气怎么样？' }],
             tools: sampleTools,
             tool_choice: 'required',
             max_tokens: 100,
             temperature: 0.1
-        })
+        }
+
+        // Apply modelPatch to make test consistent with real execution
+        if (config.provider === 'openai') modelPatch(requestBody)
 
         console.log('[Options Test] Testing Tool Use with body:', requestBody)
 
-        const response = await fetch(`${config.baseURL}/chat/completions`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${config.apiKey}`
-            },
-            body: JSON.stringify(requestBody)
-        })
+        const response = await fetchTestRequest(config, requestBody)
 
         if (!response.ok) {
             let errorMessage = `HTTP ${response.status}: ${response.statusText}`
@@ -334,13 +935,13 @@ async function testToolUse() {
         }
 
         const data = await response.json()
-        const hasToolCall = data.choices?.[0]?.message?.tool_calls?.length > 0
+        const { toolCall, content } = readTestResponse(config, data)
 
-        if (hasToolCall) {
-            elements.testResult.textContent = `✅ Tool Use 测试成功!\n\n模型成功生成了工具调用:\n${JSON.stringify(data.choices[0].message.tool_calls[0], null, 2)}`
+        if (toolCall) {
+            elements.testResult.textContent = `✅ Tool Use 测试成功!\n\n模型成功生成了工具调用:\n${JSON.stringify(toolCall, null, 2)}`
             elements.testResult.classList.add('success')
         } else {
-            elements.testResult.textContent = `⚠️ 连接成功，但模型未触发工具调用。\n\n这可能是因为模型认为不需要调用工具，或者该模型对特定语言的指令理解有偏差。建议检查模型是否原生支持 Tool Use。\n\n响应内容: ${data.choices?.[0]?.message?.content || '空'}`
+            elements.testResult.textContent = `⚠️ 连接成功，但模型未触发工具调用。\n\n这可能是因为模型认为不需要调用工具，或者该模型对特定语言的指令理解有偏差。建议检查模型是否原生支持 Tool Use。\n\n响应内容: ${content || '空'}`
             elements.testResult.classList.add('warning')
         }
         elements.testResult.style.display = 'block'
@@ -356,6 +957,247 @@ async function testToolUse() {
     }
 }
 
+// Render one archived run, steps are shown when expanded
+function renderRun(run: RunRecord): HTMLElement {
+    const item = document.createElement('details')
+    item.className = 'run-item'
+
+    const summary = document.createElement('summary')
+    const status = document.createElement('span')
+    const statusLabel = run.status === 'stopped' ? '已停止' : run.status === 'error' ? '出错' : run.success ? '成功' : '失败'
+    status.className = `run-status ${run.success ? 'success' : run.status === 'stopped' ? '' : 'failed'}`
+    status.textContent = statusLabel
+
+    const info = document.createElement('div')
+    info.className = 'list-item-info'
+    const title = document.createElement('div')
+    title.className = 'list-item-title'
+    title.textContent = run.task
+    const desc = document.createElement('div')
+    desc.className = 'list-item-desc'
+    const duration = Math.round((run.endTime - run.startTime) / 1000)
+    desc.textContent = [
+        new Date(run.startTime).toLocaleString(),
+        `${run.history.length} 步`,
+        `${duration}s`,
+        `${run.usage.totalTokens} tokens`,
+        run.startUrl,
+    ].join(' · ')
+    info.append(title, desc)
+
+    const deleteBtn = document.createElement('button')
+    deleteBtn.type = 'button'
+    deleteBtn.className = 'btn btn-sm btn-danger'
+    deleteBtn.textContent = '删除'
+    deleteBtn.addEventListener('click', async (e) => {
+        e.preventDefault()
+        await deleteRun(run.id)
+        item.remove()
+        if (!elements.runList.querySelector('.run-item')) {
+            elements.runList.innerHTML = '<div class="list-placeholder">暂无运行记录</div>'
+        }
+    })
+
+    summary.append(status, info)
+
+    // only successful runs are worth replaying
+    if (run.success) {
+        const macroBtn = document.createElement('button')
+        macroBtn.type = 'button'
+        macroBtn.className = 'btn btn-sm btn-secondary'
+        macroBtn.textContent = '存为宏'
+        macroBtn.addEventListener('click', (e) => {
+            e.preventDefault()
+            saveRunAsMacro(run)
+        })
+        summary.appendChild(macroBtn)
+    }
+
+    summary.appendChild(deleteBtn)
+    item.appendChild(summary)
+
+    // Steps are rendered on first expand, runs can be long
+    item.addEventListener('toggle', () => {
+        if (!item.open || item.querySelector('.run-body')) return
+
+        const body = document.createElement('div')
+        body.className = 'run-body'
+
+        run.history.forEach((step, i) => {
+            const entry = document.createElement('div')
+            entry.className = 'log-entry info'
+
+            const header = document.createElement('div')
+            header.className = 'log-header'
+            const name = document.createElement('span')
+            name.className = 'log-source'
+            name.textContent = `#${i + 1} ${step.action.name}`
+            const tokens = document.createElement('span')
+            tokens.textContent = `${step.usage?.totalTokens ?? 0} tokens`
+            header.append(name, tokens)
+
+            const goal = document.createElement('div')
+            goal.className = 'log-message'
+            goal.textContent = step.brain?.next_goal || ''
+
+            const details = document.createElement('div')
+            details.className = 'log-details'
+            details.textContent = [
+                `evaluation: ${step.brain?.evaluation_previous_goal ?? ''}`,
+                `memory: ${step.brain?.memory ?? ''}`,
+                `input: ${JSON.stringify(step.action.input)}`,
+                `output: ${step.action.output}`,
+            ].join('\n')
+
+            entry.append(header, goal, details)
+            body.appendChild(entry)
+        })
+
+        const result = document.createElement('div')
+        result.className = `log-entry ${run.success ? 'info' : 'error'}`
+        const resultText = run.error ?? (typeof run.result === 'string' ? run.result : JSON.stringify(run.result, null, 2))
+        const resultDetails = document.createElement('div')
+        resultDetails.className = 'log-details'
+        resultDetails.textContent = [
+            `结果: ${resultText ?? ''}`,
+            ...(run.extracted !== undefined ? [`提取数据: ${JSON.stringify(run.extracted, null, 2)}`] : []),
+            `结束页面: ${run.endUrl ?? ''}`,
+        ].join('\n')
+        result.appendChild(resultDetails)
+        body.appendChild(result)
+
+        item.appendChild(body)
+    })
+
+    return item
+}
+
+// Render saved macros
+function renderMacros() {
+    elements.macroList.innerHTML = ''
+
+    if (macros.length === 0) {
+        elements.macroList.innerHTML = '<div class="list-placeholder">暂无宏</div>'
+        return
+    }
+
+    macros.forEach(macro => {
+        const item = document.createElement('div')
+        item.className = 'list-item'
+
+        const info = document.createElement('div')
+        info.className = 'list-item-info'
+        const title = document.createElement('div')
+        title.className = 'list-item-title'
+        title.textContent = macro.name
+        const desc = document.createElement('div')
+        desc.className = 'list-item-desc'
+        desc.textContent = [`${macro.steps.length} 步`, macro.startUrl, macro.task].filter(Boolean).join(' · ')
+        info.append(title, desc)
+
+        const deleteBtn = document.createElement('button')
+        deleteBtn.type = 'button'
+        deleteBtn.className = 'btn btn-sm btn-danger'
+        deleteBtn.textContent = '删除'
+        deleteBtn.addEventListener('click', () => removeMacro(macro.id))
+
+        item.append(info, deleteBtn)
+        elements.macroList.appendChild(item)
+    })
+}
+
+// Save a successful run as a macro, saved immediately
+async function saveRunAsMacro(run: RunRecord) {
+    const steps = macroStepsFromHistory(run.history)
+    if (steps.length === 0) {
+        updateStatus('该运行没有可回放的操作', 'warning')
+        return
+    }
+
+    const name = prompt('宏名称', run.task.slice(0, 30))?.trim()
+    if (!name) return
+
+    macros.push({
+        id: crypto.randomUUID(),
+        name,
+        task: run.task,
+        startUrl: run.startUrl,
+        steps,
+        createdAt: Date.now(),
+    })
+
+    try {
+        await saveMacros(macros)
+        renderMacros()
+        updateStatus('宏已保存', 'success')
+    } catch (error) {
+        console.error('Failed to save macro:', error)
+        updateStatus('保存失败', 'error')
+    }
+}
+
+// Remove macro, saved immediately
+async function removeMacro(id: string) {
+    macros = macros.filter(m => m.id !== id)
+    try {
+        await saveMacros(macros)
+        renderMacros()
+        updateStatus('宏已删除', 'success')
+    } catch (error) {
+        console.error('Failed to remove macro:', error)
+        updateStatus('删除失败', 'error')
+    }
+}
+
+// Refresh archived runs, newest first
+async function refreshRuns() {
+    try {
+        const runs = await getRuns()
+        elements.runList.innerHTML = ''
+
+        if (runs.length === 0) {
+            elements.runList.innerHTML = '<div class="list-placeholder">暂无运行记录</div>'
+            return
+        }
+
+        runs.reverse().forEach(run => elements.runList.appendChild(renderRun(run)))
+    } catch (err) {
+        console.error('Failed to load runs:', err)
+        updateStatus('加载运行历史失败', 'error')
+    }
+}
+
+// Export archived runs to JSON file
+async function exportRuns() {
+    const runs = await getRuns()
+    if (runs.length === 0) {
+        alert('没有可导出的运行记录')
+        return
+    }
+
+    const blob = new Blob([JSON.stringify(runs, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `page-agent-runs-${new Date().toISOString().replace(/[:.]/g, '-')}.json`
+    a.click()
+    URL.revokeObjectURL(url)
+}
+
+// Clear archived runs
+async function handleClearRuns() {
+    if (!confirm('确定要清空所有运行历史吗？')) return
+
+    try {
+        await clearRuns()
+        elements.runList.innerHTML = '<div class="list-placeholder">运行历史已清空。</div>'
+        updateStatus('运行历史已清空', 'success')
+    } catch (err) {
+        console.error('Failed to clear runs:', err)
+        updateStatus('清空失败', 'error')
+    }
+}
+
 // Refresh logs from background
 async function refreshLogs() {
     try {
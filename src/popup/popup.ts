@@ -1,7 +1,8 @@
 // Page Agent Popup Logic
 
 import { MESSAGE_TYPES, createMessage, type ExecuteTaskMessage, type TaskProgressMessage, type TaskCompletedMessage } from '../lib/messages'
-import { isUsingDefaultConfig } from '../lib/storage'
+import { getLimitsConfig, getMacros, isUsingDefaultConfig } from '../lib/storage'
+import type { Macro } from '../lib/page-agent/macro'
 
 // DOM Elements
 const elements = {
@@ -17,6 +18,9 @@ const elements = {
     taskInput: document.getElementById('taskInput') as HTMLTextAreaElement,
     executeBtn: document.getElementById('executeBtn') as HTMLButtonElement,
     stopBtn: document.getElementById('stopBtn') as HTMLButtonElement,
+    macroActions: document.getElementById('macroActions') as HTMLDivElement,
+    macroSelect: document.getElementById('macroSelect') as HTMLSelectElement,
+    replayBtn: document.getElementById('replayBtn') as HTMLButtonElement,
 
     // Progress
     progressSection: document.getElementById('progressSection') as HTMLDivElement,
@@ -43,6 +47,7 @@ const elements = {
 let isRunning = false
 let isPaused = false
 let currentTabId: number | null = null
+let macros: Macro[] = []
 
 // Initialize
 async function init() {
@@ -50,6 +55,7 @@ async function init() {
     await getCurrentTab()
     setupEventListeners()
     loadSavedTask()
+    await loadMacros()
     await queryBackgroundStatus()
 }
 
@@ -76,9 +82,10 @@ async function queryBackgroundStatus() {
             if (response.task.history?.length > 0) {
                 const history = response.task.history
                 const lastStep = history[history.length - 1]
+                const { maxSteps } = await getLimitsConfig()
                 updateProgress({
                     step: history.length,
-                    maxSteps: 20,
+                    maxSteps,
                     brain: {
                         nextGoal: lastStep.brain?.next_goal || '继续执行...'
                     }
@@ -154,6 +161,9 @@ function setupEventListeners() {
     // Execute button
     elements.executeBtn.addEventListener('click', executeTask)
 
+    // Replay button
+    elements.replayBtn.addEventListener('click', replayMacro)
+
     // Stop button
     elements.stopBtn.addEventListener('click', stopTask)
 
@@ -220,6 +230,34 @@ async function executeTask() {
         return
     }
 
+    await startTask(task)
+}
+
+// Load saved macros, the replay controls are only shown when there are some
+async function loadMacros() {
+    macros = await getMacros()
+    elements.macroActions.classList.toggle('hidden', macros.length === 0)
+    elements.macroSelect.innerHTML = ''
+    for (const macro of macros) {
+        const option = document.createElement('option')
+        option.value = macro.id
+        option.textContent = `${macro.name} (${macro.steps.length} 步)`
+        elements.macroSelect.appendChild(option)
+    }
+}
+
+// Replay the selected macro in the current tab
+async function replayMacro() {
+    if (isRunning) return
+    const macro = macros.find(m => m.id === elements.macroSelect.value)
+    if (!macro) return
+
+    elements.taskInput.value = macro.task
+    await startTask(macro.task, macro.id)
+}
+
+// Start a task in the current tab, replaying a macro when macroId is given
+async function startTask(task: string, macroId?: string) {
     if (!currentTabId) {
         updateStatus('无法获取当前页面', 'error')
         return
@@ -258,6 +296,7 @@ async function executeTask() {
         await chrome.tabs.sendMessage(currentTabId, createMessage<ExecuteTaskMessage>({
             type: MESSAGE_TYPES.EXECUTE_TASK,
             task,
+            macroId,
         }))
         console.log('[Popup] EXECUTE_TASK message sent successfully')
 
@@ -398,7 +437,12 @@ function handleTaskCompleted(message: TaskCompletedMessage) {
     elements.resultSection.classList.remove('hidden')
     elements.resultIcon.textContent = message.success ? '✅' : '❌'
     elements.resultTitle.textContent = message.success ? '任务完成' : '任务失败'
-    elements.resultContent.textContent = message.result
+    const resultText = typeof message.result === 'string'
+        ? message.result
+        : JSON.stringify(message.result, null, 2)
+    elements.resultContent.textContent = message.extracted === undefined
+        ? resultText
+        : `${resultText}\n\n${JSON.stringify(message.extracted, null, 2)}`
 
     updateStatus(message.success ? '执行成功' : '执行失败', message.success ? 'success' : 'error')
     elements.executeBtn.classList.remove('hidden')